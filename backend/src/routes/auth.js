@@ -1,11 +1,39 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const Farmer = require('../models/Farmer');
 const { generateToken } = require('../middleware/auth');
-const { authenticateWallet } = require('../services/walletService');
+const {
+  authenticateWallet,
+  issueNonce,
+  isSignInMessageValid,
+  consumeNonce
+} = require('../services/walletService');
 
 const router = express.Router();
 
+// @route   GET /api/auth/nonce
+// @desc    Issue a single-use nonce for the wallet's next sign-in message
+// @access  Public
+router.get('/nonce', [
+  query('walletAddress').isEthereumAddress().withMessage('Invalid wallet address')
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      nonce: issueNonce(req.query.walletAddress)
+    }
+  });
+});
+
 // @route   POST /api/auth/register
 // @desc    Register a new farmer
 // @access  Public
@@ -59,6 +87,15 @@ router.post('/register', [
       });
     }
 
+    // The nonce must be one this server issued, and each one signs in only once
+    if (!isSignInMessageValid(walletAddress, message)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sign-in message has expired or was not issued by this server'
+      });
+    }
+    consumeNonce(message);
+
     // Check if farmer already exists
     const existingFarmer = await Farmer.findOne({
       $or: [
@@ -148,6 +185,15 @@ router.post('/login', [
       });
     }
 
+    // The nonce must be one this server issued, and each one signs in only once
+    if (!isSignInMessageValid(walletAddress, message)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sign-in message has expired or was not issued by this server'
+      });
+    }
+    consumeNonce(message);
+
     // Find farmer by wallet address
     const farmer = await Farmer.findOne({ 
       walletAddress: walletAddress.toLowerCase() 
@@ -256,11 +302,12 @@ router.post('/verify-signature', [
     const { walletAddress, signature, message } = req.body;
 
     const isValidSignature = await authenticateWallet(walletAddress, signature, message);
-    
+
     res.json({
       success: true,
       data: {
-        isValid: isValidSignature
+        // Checks the nonce without using it up, so the message can still sign in
+        isValid: isValidSignature && isSignInMessageValid(walletAddress, message)
       }
     });
 
@@ -1,5 +1,12 @@
+const crypto = require('crypto');
 const { ethers } = require('ethers');
 
+// Sign-in nonces are only accepted for this long after they are issued.
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// nonce -> { walletAddress, expiresAt }. Kept in memory, so nonces do not survive a restart.
+const issuedNonces = new Map();
+
 /**
  * Authenticate wallet signature
  * @param {string} walletAddress - The wallet address
@@ -20,6 +27,58 @@ const authenticateWallet = async (walletAddress, signature, message) => {
   }
 };
 
+/**
+ * Issue a single-use nonce for a wallet's next sign-in message
+ * @param {string} walletAddress - The wallet address
+ * @returns {string} - The nonce, to be embedded in the signed message
+ */
+const issueNonce = (walletAddress) => {
+  const now = Date.now();
+  for (const [nonce, issued] of issuedNonces) {
+    if (issued.expiresAt <= now) issuedNonces.delete(nonce);
+  }
+
+  const nonce = crypto.randomBytes(12).toString('hex');
+  issuedNonces.set(nonce, { walletAddress: walletAddress.toLowerCase(), expiresAt: now + NONCE_TTL_MS });
+  return nonce;
+};
+
+/**
+ * Read a field such as "Nonce" or "Expiration Time" from an EIP-4361 message
+ * @param {string} message - The signed message
+ * @param {string} field - The field name
+ * @returns {string|undefined} - The field value
+ */
+const readMessageField = (message, field) => {
+  const line = message.split('\n').find((candidate) => candidate.startsWith(`${field}: `));
+  return line?.slice(field.length + 2);
+};
+
+/**
+ * Check that a sign-in message carries a nonce this server issued to the wallet
+ * and has not expired
+ * @param {string} walletAddress - The wallet address
+ * @param {string} message - The signed message
+ * @returns {boolean} - Whether the message may be used to sign in
+ */
+const isSignInMessageValid = (walletAddress, message) => {
+  const issued = issuedNonces.get(readMessageField(message, 'Nonce'));
+  if (!issued || issued.walletAddress !== walletAddress.toLowerCase() || issued.expiresAt <= Date.now()) {
+    return false;
+  }
+
+  const expirationTime = readMessageField(message, 'Expiration Time');
+  return !expirationTime || Date.parse(expirationTime) > Date.now();
+};
+
+/**
+ * Mark a sign-in message's nonce as used so the message cannot be replayed
+ * @param {string} message - The signed message
+ */
+const consumeNonce = (message) => {
+  issuedNonces.delete(readMessageField(message, 'Nonce'));
+};
+
 /**
  * Generate a message for wallet signing
  * @param {string} walletAddress - The wallet address
@@ -119,6 +178,9 @@ const hasSufficientBalance = async (walletAddress, amount, tokenAddress = null)
 
 module.exports = {
   authenticateWallet,
+  issueNonce,
+  isSignInMessageValid,
+  consumeNonce,
   generateMessage,
   isValidAddress,
   formatAddress,
@@ -1,31 +1,68 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { useEffect } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Landing from "./pages/Landing";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
+import Settings from "./pages/Settings";
+import RouteGuard from "./components/RouteGuard";
 import NotFound from "./pages/NotFound";
+import { useWallet } from "./hooks/use-wallet";
+import { useTransactions } from "./hooks/use-transactions";
+import { useSession } from "./hooks/use-session";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Landing />} />
-          <Route path="/register" element={<Register />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  // Restore the wallet session from the last visit and follow wallet events.
+  useEffect(() => useWallet.getState().init(), []);
+  // Resume receipt polling for transactions still pending from an earlier visit.
+  useEffect(() => useTransactions.getState().init(queryClient), []);
+  // Restore the backend sign-in and end it when the token expires or the wallet changes.
+  useEffect(() => useSession.getState().init(queryClient), []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Landing />} />
+            <Route
+              path="/register"
+              element={
+                <RouteGuard require="unregistered">
+                  <Register />
+                </RouteGuard>
+              }
+            />
+            <Route
+              path="/dashboard"
+              element={
+                <RouteGuard require="registered">
+                  <Dashboard />
+                </RouteGuard>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <RouteGuard require="registered">
+                  <Settings />
+                </RouteGuard>
+              }
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
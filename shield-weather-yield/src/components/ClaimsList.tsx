@@ -12,41 +12,51 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
+import type { Claim, ClaimStatus } from '../types';
+
+const CLAIM_STATUS_STYLES: Record<ClaimStatus, { icon: React.ReactNode; badge: string }> = {
+  pending: {
+    icon: <Clock className="h-5 w-5 text-yellow-600" />,
+    badge: 'bg-yellow-100 text-yellow-800 border-yellow-200'
+  },
+  approved: {
+    icon: <CheckCircle className="h-5 w-5 text-blue-600" />,
+    badge: 'bg-blue-100 text-blue-800 border-blue-200'
+  },
+  rejected: {
+    icon: <XCircle className="h-5 w-5 text-red-600" />,
+    badge: 'bg-red-100 text-red-800 border-red-200'
+  },
+  paid: {
+    icon: <CheckCircle className="h-5 w-5 text-green-600" />,
+    badge: 'bg-green-100 text-green-800 border-green-200'
+  },
+  failed: {
+    icon: <AlertTriangle className="h-5 w-5 text-red-600" />,
+    badge: 'bg-red-100 text-red-800 border-red-200'
+  }
+};
 
 interface ClaimsListProps {
-  claims: any[];
+  claims: Claim[];
+  isLoading?: boolean;
+  isError?: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'paid':
-        return <CheckCircle className="h-5 w-5 text-green-600" />;
-      case 'pending':
-        return <Clock className="h-5 w-5 text-yellow-600" />;
-      case 'rejected':
-        return <XCircle className="h-5 w-5 text-red-600" />;
-      case 'failed':
-        return <AlertTriangle className="h-5 w-5 text-red-600" />;
-      default:
-        return <Clock className="h-5 w-5 text-gray-600" />;
-    }
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'paid':
-        return 'bg-green-100 text-green-800 border-green-200';
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'rejected':
-        return 'bg-red-100 text-red-800 border-red-200';
-      case 'failed':
-        return 'bg-red-100 text-red-800 border-red-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
-  };
+const ClaimsList: React.FC<ClaimsListProps> = ({
+  claims,
+  isLoading = false,
+  isError = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
+}) => {
+  // Premium payments are listed alongside payouts but do not count towards payout totals.
+  const payouts = claims.filter((claim) => claim.kind !== 'premium');
+  const totalPayouts = payouts.reduce((sum, claim) => sum + claim.amount, 0);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -63,7 +73,34 @@ const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
     }).format(amount);
   };
 
-  if (claims.length === 0) {
+  if (isLoading || (isError && claims.length === 0)) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Claims History</CardTitle>
+          <CardDescription>Your insurance claims and payout history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-gray-600">
+              <div className="w-4 h-4 mr-2 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+              Loading your claims history...
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <AlertTriangle className="h-12 w-12 text-red-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Couldn't Load Claims</h3>
+              <p className="text-gray-600">
+                Your payout history couldn't be read from the blockchain. Please try again later.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (claims.length === 0 && !hasMore) {
     return (
       <Card>
         <CardHeader>
@@ -103,14 +140,14 @@ const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
                   <div className="flex items-start justify-between">
                     <div className="flex items-start space-x-4">
                       <div className="flex-shrink-0">
-                        {getStatusIcon(claim.status)}
+                        {CLAIM_STATUS_STYLES[claim.status].icon}
                       </div>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center space-x-2 mb-2">
                           <h3 className="text-lg font-semibold text-gray-900">
                             {claim.claimId}
                           </h3>
-                          <Badge className={getStatusColor(claim.status)}>
+                          <Badge className={CLAIM_STATUS_STYLES[claim.status].badge}>
                             {claim.status.charAt(0).toUpperCase() + claim.status.slice(1)}
                           </Badge>
                         </div>
@@ -122,7 +159,7 @@ const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
                             <Calendar className="h-4 w-4 mr-1" />
                             <span>Created: {formatDate(claim.createdAt)}</span>
                           </div>
-                          {claim.paidAt && (
+                          {claim.status === 'paid' && (
                             <div className="flex items-center">
                               <CheckCircle className="h-4 w-4 mr-1" />
                               <span>Paid: {formatDate(claim.paidAt)}</span>
@@ -136,12 +173,18 @@ const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
                         <div className="text-2xl font-bold text-green-600">
                           {formatAmount(claim.amount)}
                         </div>
-                        <div className="text-sm text-gray-500">Payout Amount</div>
+                        <div className="text-sm text-gray-500">
+                          {claim.kind === 'premium' ? 'Premium Paid' : 'Payout Amount'}
+                        </div>
                       </div>
-                      <Button variant="outline" size="sm">
-                        <ExternalLink className="h-4 w-4 mr-1" />
-                        View Details
-                      </Button>
+                      {claim.explorerUrl && (
+                        <Button asChild variant="outline" size="sm">
+                          <a href={claim.explorerUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-4 w-4 mr-1" />
+                            View Details
+                          </a>
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -150,6 +193,17 @@ const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
           ))}
         </div>
 
+        {hasMore && (
+          <div className="mt-6 text-center">
+            {isError && (
+              <p className="text-sm text-red-600 mb-2">Couldn't load older history. Please try again.</p>
+            )}
+            <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? 'Loading...' : 'Load Older History'}
+            </Button>
+          </div>
+        )}
+
         {/* Summary Stats */}
         <motion.div 
           className="mt-8 pt-6 border-t border-gray-200"
@@ -160,19 +214,19 @@ const ClaimsList: React.FC<ClaimsListProps> = ({ claims }) => {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">
-                {claims.length}
+                {payouts.length}
               </div>
               <div className="text-sm text-gray-600">Total Claims</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-green-600">
-                {formatAmount(claims.reduce((sum, claim) => sum + claim.amount, 0))}
+                {formatAmount(totalPayouts)}
               </div>
               <div className="text-sm text-gray-600">Total Payouts</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">
-                {formatAmount(claims.reduce((sum, claim) => sum + claim.amount, 0) / claims.length)}
+                {formatAmount(payouts.length > 0 ? totalPayouts / payouts.length : 0)}
               </div>
               <div className="text-sm text-gray-600">Average Payout</div>
             </div>
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { cropTypes } from '../lib/crops';
+
+interface CropSelectProps {
+  id?: string;
+  value?: string;
+  onValueChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const CropSelect: React.FC<CropSelectProps> = ({ id, value, onValueChange, disabled }) => (
+  <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+    <SelectTrigger id={id}>
+      <SelectValue placeholder="Select crop type" />
+    </SelectTrigger>
+    <SelectContent>
+      {cropTypes.map((crop) => (
+        <SelectItem key={crop.value} value={crop.value}>
+          <span className="flex items-center">
+            <span className="mr-2">{crop.icon}</span>
+            {crop.label}
+          </span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default CropSelect;
@@ -12,15 +12,19 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
+import { POLICY_STATUS_LABELS, type Claim, type Farmer, type Policy } from '../types';
 
 interface FarmStatsProps {
-  farmer: any;
-  claims: any[];
+  farmer?: Farmer;
+  policy?: Policy;
+  claims: Claim[];
   detailed?: boolean;
+  // Shown instead of the loading text when the farm or premium data failed to load.
+  error?: string;
 }
 
-const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false }) => {
-  if (!farmer) {
+const FarmStats: React.FC<FarmStatsProps> = ({ farmer, policy, claims, detailed = false, error }) => {
+  if (!farmer || !policy) {
     return (
       <Card>
         <CardHeader>
@@ -28,35 +32,41 @@ const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false
         </CardHeader>
         <CardContent>
           <div className="text-center py-8">
-            <div className="text-gray-500">Loading farm data...</div>
+            <div className={error ? 'text-red-600 text-sm' : 'text-gray-500'}>{error ?? 'Loading farm data...'}</div>
           </div>
         </CardContent>
       </Card>
     );
   }
 
+  // Off-chain profile fields (size, coverage, dates) may not be recorded for on-chain farmers.
+  const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : 'Not recorded');
+  const coverageAmount = policy.coverageAmount ?? 0;
+
   const totalPayouts = claims.reduce((sum, claim) => sum + claim.amount, 0);
   const averagePayout = claims.length > 0 ? totalPayouts / claims.length : 0;
-  const coverageUtilization = farmer.insuranceDetails.coverageAmount > 0 
-    ? (totalPayouts / farmer.insuranceDetails.coverageAmount) * 100 
+  const coverageUtilization = coverageAmount > 0 
+    ? (totalPayouts / coverageAmount) * 100 
     : 0;
 
   const stats = [
     {
       title: 'Farm Size',
-      value: `${farmer.farmDetails.farmSize} ${farmer.farmDetails.farmSizeUnit}`,
+      value: farmer.farmSize
+        ? `${farmer.farmSize} ${farmer.farmSizeUnit ?? 'acres'}`
+        : 'Not recorded',
       icon: <MapPin className="h-5 w-5 text-blue-500" />,
       description: 'Total farm area'
     },
     {
       title: 'Crop Type',
-      value: farmer.farmDetails.cropType.charAt(0).toUpperCase() + farmer.farmDetails.cropType.slice(1),
+      value: farmer.cropType.charAt(0).toUpperCase() + farmer.cropType.slice(1),
       icon: <Crop className="h-5 w-5 text-green-500" />,
       description: 'Primary crop grown'
     },
     {
       title: 'Coverage Amount',
-      value: `$${farmer.insuranceDetails.coverageAmount.toLocaleString()}`,
+      value: coverageAmount ? `$${coverageAmount.toLocaleString()}` : 'Not set',
       icon: <Shield className="h-5 w-5 text-purple-500" />,
       description: 'Maximum coverage limit'
     },
@@ -159,7 +169,7 @@ const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false
             <Progress value={coverageUtilization} className="h-3" />
             <div className="flex justify-between text-xs text-gray-500">
               <span>${totalPayouts.toLocaleString()} used</span>
-              <span>${farmer.insuranceDetails.coverageAmount.toLocaleString()} total</span>
+              <span>${coverageAmount.toLocaleString()} total</span>
             </div>
           </div>
         </CardContent>
@@ -179,24 +189,24 @@ const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false
               <span className="text-sm font-medium text-gray-700">Status</span>
               <Badge 
                 className={
-                  farmer.insuranceDetails.policyStatus === 'active' 
+                  policy.status === 'active' 
                     ? 'bg-green-100 text-green-800 border-green-200'
                     : 'bg-yellow-100 text-yellow-800 border-yellow-200'
                 }
               >
-                {farmer.insuranceDetails.policyStatus}
+                {POLICY_STATUS_LABELS[policy.status]}
               </Badge>
             </div>
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Premium Amount</span>
+              <span className="text-sm font-medium text-gray-700">Premiums Paid</span>
               <span className="text-sm font-semibold text-gray-900">
-                ${farmer.insuranceDetails.premiumAmount}
+                {policy.premiumPaid.toLocaleString()} cUSD
               </span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-gray-700">Next Payment Due</span>
               <span className="text-sm text-gray-600">
-                {new Date(farmer.insuranceDetails.nextPremiumDue).toLocaleDateString()}
+                {formatDate(policy.nextPremiumDue)}
               </span>
             </div>
           </div>
@@ -254,7 +264,7 @@ const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false
                       Farm Registered
                     </div>
                     <div className="text-xs text-gray-500">
-                      {new Date(farmer.createdAt).toLocaleDateString()}
+                      {formatDate(farmer.registeredAt)}
                     </div>
                   </div>
                 </div>
@@ -265,7 +275,7 @@ const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false
                       Crop Planted
                     </div>
                     <div className="text-xs text-gray-500">
-                      {new Date(farmer.farmDetails.plantingDate).toLocaleDateString()}
+                      {formatDate(farmer.plantingDate)}
                     </div>
                   </div>
                 </div>
@@ -276,7 +286,7 @@ const FarmStats: React.FC<FarmStatsProps> = ({ farmer, claims, detailed = false
                       Expected Harvest
                     </div>
                     <div className="text-xs text-gray-500">
-                      {new Date(farmer.farmDetails.expectedHarvestDate).toLocaleDateString()}
+                      {formatDate(farmer.expectedHarvestDate)}
                     </div>
                   </div>
                 </div>
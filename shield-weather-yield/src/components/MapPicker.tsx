@@ -1,110 +1,475 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { MapPin, CheckCircle } from 'lucide-react';
+import { MapContainer, Marker, Polygon, Polyline, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import type { LeafletMouseEvent, Marker as LeafletMarker } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { CheckCircle, Crosshair, Download, PenTool, Search, Trash2, Undo2, Upload } from 'lucide-react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  DEFAULT_CENTER,
+  DEFAULT_ZOOM,
+  PIN_ZOOM,
+  TILE_ATTRIBUTION,
+  TILE_URL,
+  VERTEX_ICON
+} from '../lib/map';
+import { formatCoordinates, parseCoordinate } from '../lib/coordinates';
+import {
+  boundaryToGeoJSON,
+  describeBoundary,
+  parseBoundaryGeoJSON,
+  toAreaUnit,
+  type BoundaryPoint,
+  type FarmBoundary
+} from '../lib/boundary';
+import { geocoder, type GeocodedPlace } from '../lib/geocoder';
+
+export type MapLocation = GeocodedPlace;
 
 interface MapPickerProps {
-  onLocationSelect: (location: any) => void;
+  onLocationSelect: (location: MapLocation) => void;
+  initialLocation?: Partial<MapLocation>;
+  onBoundaryChange?: (boundary: FarmBoundary | null) => void;
+  initialBoundary?: BoundaryPoint[];
 }
 
-const MapPicker: React.FC<MapPickerProps> = ({ onLocationSelect }) => {
-  const [selectedLocation, setSelectedLocation] = useState<any>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  // Mock location selection - in a real app, this would integrate with a map library like Leaflet
-  const handleMapClick = async (lat: number, lng: number) => {
-    setIsLoading(true);
-    
-    // Simulate reverse geocoding
-    setTimeout(() => {
-      const mockLocation = {
-        latitude: lat,
-        longitude: lng,
-        address: `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
-        city: 'Sample City',
-        state: 'Sample State',
-        country: 'Sample Country'
-      };
-      
-      setSelectedLocation(mockLocation);
-      onLocationSelect(mockLocation);
-      setIsLoading(false);
-    }, 1000);
-  };
-
-  // Sample farm locations for demo
-  const sampleLocations = [
-    { lat: 41.8781, lng: -93.0977, name: 'Iowa Farm' },
-    { lat: 40.7128, lng: -74.0060, name: 'New York Farm' },
-    { lat: 34.0522, lng: -118.2437, name: 'California Farm' },
-    { lat: 29.7604, lng: -95.3698, name: 'Texas Farm' },
-  ];
+type MapMode = 'pin' | 'draw';
+
+// Shown while the geocoder resolves a dropped pin, and kept if it finds nothing.
+const describeCoordinates = (latitude: number, longitude: number): MapLocation => ({
+  latitude,
+  longitude,
+  address: formatCoordinates(latitude, longitude),
+  city: '',
+  state: '',
+  country: '',
+  approximate: true
+});
+
+const describeGeolocationError = (error: GeolocationPositionError) => {
+  if (error.code === error.PERMISSION_DENIED) return 'Location access was denied in your browser.';
+  if (error.code === error.TIMEOUT) return 'Timed out while finding your location.';
+  return 'Your location is unavailable right now.';
+};
+
+// Forwards map clicks: they drop the pin, or add a vertex while drawing a boundary.
+const MapClicks: React.FC<{ onClick: (latitude: number, longitude: number) => void }> = ({ onClick }) => {
+  useMapEvents({
+    click: (event: LeafletMouseEvent) => onClick(event.latlng.lat, event.latlng.lng)
+  });
+  return null;
+};
+
+// Moves the map when the pin is placed from outside the map (geolocation or typed coordinates).
+const FlyTo: React.FC<{ target: [number, number] | null }> = ({ target }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (target) map.flyTo(target, Math.max(map.getZoom(), PIN_ZOOM));
+  }, [map, target]);
+  return null;
+};
+
+// Frames an imported boundary.
+const FitBounds: React.FC<{ points: BoundaryPoint[] | null }> = ({ points }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (points && points.length > 0) map.fitBounds(points, { padding: [24, 24] });
+  }, [map, points]);
+  return null;
+};
+
+const MapPicker: React.FC<MapPickerProps> = ({
+  onLocationSelect,
+  initialLocation,
+  onBoundaryChange,
+  initialBoundary
+}) => {
+  const hasInitial = initialLocation?.latitude != null && initialLocation?.longitude != null;
+  const [selectedLocation, setSelectedLocation] = useState<MapLocation | null>(
+    hasInitial
+      ? { ...describeCoordinates(initialLocation.latitude, initialLocation.longitude), ...initialLocation }
+      : null
+  );
+  const [flyTarget, setFlyTarget] = useState<[number, number] | null>(null);
+  const [latitudeInput, setLatitudeInput] = useState(hasInitial ? String(initialLocation.latitude) : '');
+  const [longitudeInput, setLongitudeInput] = useState(hasInitial ? String(initialLocation.longitude) : '');
+  const [inputError, setInputError] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [mode, setMode] = useState<MapMode>('pin');
+  const [boundaryPoints, setBoundaryPoints] = useState<BoundaryPoint[]>(initialBoundary ?? []);
+  const [fitTarget, setFitTarget] = useState<BoundaryPoint[] | null>(null);
+  const [boundaryError, setBoundaryError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<GeocodedPlace[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  // Aborts the in-flight reverse lookup when the pin moves again before it resolves.
+  const reverseRequest = useRef<AbortController | null>(null);
+
+  useEffect(() => () => reverseRequest.current?.abort(), []);
+  const boundary = mode === 'pin' && boundaryPoints.length >= 3 ? describeBoundary(boundaryPoints) : null;
+
+  const applyLocation = (location: MapLocation) => {
+    setSelectedLocation(location);
+    setLatitudeInput(location.latitude.toFixed(6));
+    setLongitudeInput(location.longitude.toFixed(6));
+    setInputError('');
+    onLocationSelect(location);
+  };
+
+  const selectLocation = async (latitude: number, longitude: number) => {
+    reverseRequest.current?.abort();
+    const request = new AbortController();
+    reverseRequest.current = request;
+
+    applyLocation(describeCoordinates(latitude, longitude));
+    setIsResolving(true);
+    try {
+      const place = await geocoder.reverse(latitude, longitude, request.signal);
+      if (place && !request.signal.aborted) applyLocation(place);
+    } catch {
+      // The pin keeps its coordinate label when no place name can be found.
+    } finally {
+      if (reverseRequest.current === request) setIsResolving(false);
+    }
+  };
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) return;
+    setIsSearching(true);
+    try {
+      setSearchResults(await geocoder.search(searchQuery));
+    } catch {
+      setSearchResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return;
+    event.preventDefault();
+    handleSearch();
+  };
+
+  const chooseSearchResult = (place: GeocodedPlace) => {
+    reverseRequest.current?.abort();
+    setIsResolving(false);
+    setSearchResults(null);
+    setSearchQuery(place.address);
+    applyLocation(place);
+    setFlyTarget([place.latitude, place.longitude]);
+  };
+
+  const handleManualEntry = () => {
+    const latitude = parseCoordinate(latitudeInput, 90);
+    const longitude = parseCoordinate(longitudeInput, 180);
+    if (latitude === null) {
+      setInputError('Latitude must be a number between -90 and 90.');
+      return;
+    }
+    if (longitude === null) {
+      setInputError('Longitude must be a number between -180 and 180.');
+      return;
+    }
+    selectLocation(latitude, longitude);
+    setFlyTarget([latitude, longitude]);
+  };
+
+  const handleUseMyLocation = () => {
+    if (!('geolocation' in navigator)) {
+      setInputError('Your browser does not support location lookup.');
+      return;
+    }
+    setIsLocating(true);
+    setInputError('');
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        selectLocation(position.coords.latitude, position.coords.longitude);
+        setFlyTarget([position.coords.latitude, position.coords.longitude]);
+      },
+      (error) => {
+        setIsLocating(false);
+        setInputError(describeGeolocationError(error));
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  // MapPicker renders inside the registration form, so Enter must not submit it.
+  const handleCoordinateKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return;
+    event.preventDefault();
+    handleManualEntry();
+  };
+
+  const markerHandlers = {
+    dragend: (event: { target: LeafletMarker }) => {
+      const { lat, lng } = event.target.getLatLng();
+      selectLocation(lat, lng);
+    }
+  };
+
+  // A finished boundary moves the pin to its centroid and reports the new area.
+  const commitBoundary = (points: BoundaryPoint[]) => {
+    setBoundaryPoints(points);
+    if (points.length < 3) {
+      onBoundaryChange?.(null);
+      return;
+    }
+    const next = describeBoundary(points);
+    selectLocation(next.centroid[0], next.centroid[1]);
+    onBoundaryChange?.(next);
+  };
+
+  const handleMapClick = (latitude: number, longitude: number) => {
+    if (mode === 'draw') {
+      setBoundaryPoints((points) => [...points, [latitude, longitude]]);
+      return;
+    }
+    selectLocation(latitude, longitude);
+  };
+
+  const startDrawing = () => {
+    setBoundaryError('');
+    setBoundaryPoints([]);
+    onBoundaryChange?.(null);
+    setMode('draw');
+  };
+
+  const finishDrawing = () => {
+    if (boundaryPoints.length < 3) {
+      setBoundaryError('Add at least three points to outline your farm.');
+      return;
+    }
+    setBoundaryError('');
+    setMode('pin');
+    commitBoundary(boundaryPoints);
+  };
+
+  const deleteBoundary = () => {
+    setBoundaryError('');
+    setMode('pin');
+    commitBoundary([]);
+  };
+
+  const moveVertex = (index: number, event: { target: LeafletMarker }) => {
+    const { lat, lng } = event.target.getLatLng();
+    const points = boundaryPoints.map((point, i): BoundaryPoint => (i === index ? [lat, lng] : point));
+    if (mode === 'draw') {
+      setBoundaryPoints(points);
+    } else {
+      commitBoundary(points);
+    }
+  };
+
+  // Right-clicking a vertex removes it; a finished boundary keeps at least three.
+  const removeVertex = (index: number) => {
+    if (mode === 'pin' && boundaryPoints.length <= 3) return;
+    const points = boundaryPoints.filter((_, i) => i !== index);
+    if (mode === 'draw') {
+      setBoundaryPoints(points);
+    } else {
+      commitBoundary(points);
+    }
+  };
+
+  const exportBoundary = () => {
+    const blob = new Blob([JSON.stringify(boundaryToGeoJSON(boundaryPoints), null, 2)], {
+      type: 'application/geo+json'
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'farm-boundary.geojson';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importBoundary = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const points = parseBoundaryGeoJSON(await file.text());
+      setBoundaryError('');
+      setMode('pin');
+      commitBoundary(points);
+      setFitTarget(points);
+    } catch (error) {
+      setBoundaryError(error instanceof Error ? error.message : 'Could not read the GeoJSON file.');
+    }
+  };
 
   return (
-    <div className="relative h-full">
-      {/* Mock Map Interface */}
-      <div className="relative h-full bg-gradient-to-br from-green-100 to-blue-100 rounded-lg overflow-hidden">
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="text-center">
-            <MapPin className="h-16 w-16 text-green-600 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              Select Your Farm Location
-            </h3>
-            <p className="text-gray-600 mb-6">
-              Click on one of the sample locations or use the map to select your farm
-            </p>
-            
-            {/* Sample Location Buttons */}
-            <div className="grid grid-cols-2 gap-2 mb-6">
-              {sampleLocations.map((location, index) => (
-                <Button
-                  key={index}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleMapClick(location.lat, location.lng)}
-                  disabled={isLoading}
-                  className="text-xs"
+    <div className="flex flex-col h-full">
+      <div className="relative flex gap-2 p-2 bg-white">
+        <Input
+          aria-label="Search for a place"
+          placeholder="Search for a village, town or region"
+          value={searchQuery}
+          onChange={(event) => setSearchQuery(event.target.value)}
+          onKeyDown={handleSearchKeyDown}
+          className="flex-1 h-8 text-sm"
+        />
+        <Button type="button" size="sm" variant="outline" className="h-8" onClick={handleSearch} disabled={isSearching}>
+          <Search className="h-4 w-4 mr-1" />
+          {isSearching ? 'Searching...' : 'Search'}
+        </Button>
+        {searchResults && (
+          <ul className="absolute left-2 right-2 top-full z-[1100] bg-white border rounded shadow-lg text-sm">
+            {searchResults.length === 0 && <li className="px-3 py-2 text-gray-500">No places found.</li>}
+            {searchResults.map((place) => (
+              <li key={`${place.latitude},${place.longitude},${place.address}`}>
+                <button
+                  type="button"
+                  className="w-full text-left px-3 py-2 hover:bg-green-50"
+                  onClick={() => chooseSearchResult(place)}
                 >
-                  {location.name}
-                </Button>
-              ))}
-            </div>
-
-            {/* Mock Map Grid */}
-            <div className="grid grid-cols-4 gap-2 max-w-xs mx-auto">
-              {Array.from({ length: 16 }).map((_, index) => {
-                const lat = 40 + (Math.random() - 0.5) * 10;
-                const lng = -100 + (Math.random() - 0.5) * 20;
-                return (
-                  <button
-                    key={index}
-                    onClick={() => handleMapClick(lat, lng)}
-                    disabled={isLoading}
-                    className="w-8 h-8 bg-white border border-gray-300 rounded hover:bg-green-100 hover:border-green-400 transition-colors"
-                  />
-                );
-              })}
-            </div>
-          </div>
-        </div>
-
-        {/* Loading Overlay */}
-        {isLoading && (
-          <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center">
-            <div className="text-center">
-              <div className="w-8 h-8 border-4 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
-              <p className="text-sm text-gray-600">Loading location...</p>
-            </div>
-          </div>
+                  {place.address}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-start gap-2 px-2 pb-2 bg-white">
+        <Input
+          aria-label="Latitude"
+          placeholder="Latitude"
+          value={latitudeInput}
+          onChange={(event) => setLatitudeInput(event.target.value)}
+          onKeyDown={handleCoordinateKeyDown}
+          className="w-32 h-8 text-sm"
+        />
+        <Input
+          aria-label="Longitude"
+          placeholder="Longitude"
+          value={longitudeInput}
+          onChange={(event) => setLongitudeInput(event.target.value)}
+          onKeyDown={handleCoordinateKeyDown}
+          className="w-32 h-8 text-sm"
+        />
+        <Button type="button" size="sm" variant="outline" className="h-8" onClick={handleManualEntry}>
+          Go
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={handleUseMyLocation}
+          disabled={isLocating}
+        >
+          <Crosshair className="h-4 w-4 mr-1" />
+          {isLocating ? 'Locating...' : 'Use my location'}
+        </Button>
+        {inputError && <p className="w-full text-xs text-red-600">{inputError}</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-2 pb-2 border-b bg-white">
+        {mode === 'draw' ? (
+          <>
+            <Button type="button" size="sm" className="h-8 bg-green-600 hover:bg-green-700" onClick={finishDrawing}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Finish boundary
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => setBoundaryPoints((points) => points.slice(0, -1))}
+              disabled={boundaryPoints.length === 0}
+            >
+              <Undo2 className="h-4 w-4 mr-1" />
+              Undo point
+            </Button>
+          </>
+        ) : (
+          <Button type="button" size="sm" variant="outline" className="h-8" onClick={startDrawing}>
+            <PenTool className="h-4 w-4 mr-1" />
+            {boundaryPoints.length > 0 ? 'Redraw boundary' : 'Draw boundary'}
+          </Button>
+        )}
+        {boundaryPoints.length > 0 && (
+          <Button type="button" size="sm" variant="outline" className="h-8" onClick={deleteBoundary}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
         )}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={exportBoundary}
+          disabled={!boundary}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          Export GeoJSON
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="h-8" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import GeoJSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={importBoundary}
+        />
+        {boundaryError && <p className="w-full text-xs text-red-600">{boundaryError}</p>}
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        <MapContainer
+          center={selectedLocation ? [selectedLocation.latitude, selectedLocation.longitude] : DEFAULT_CENTER}
+          zoom={selectedLocation ? PIN_ZOOM : DEFAULT_ZOOM}
+          className="h-full w-full"
+        >
+          <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+          <MapClicks onClick={handleMapClick} />
+          <FlyTo target={flyTarget} />
+          <FitBounds points={fitTarget} />
+          {mode === 'draw' ? (
+            boundaryPoints.length > 1 && <Polyline positions={boundaryPoints} pathOptions={{ color: '#16a34a', dashArray: '6' }} />
+          ) : (
+            boundaryPoints.length >= 3 && <Polygon positions={boundaryPoints} pathOptions={{ color: '#16a34a' }} />
+          )}
+          {boundaryPoints.map((point, index) => (
+            <Marker
+              key={index}
+              position={point}
+              icon={VERTEX_ICON}
+              draggable
+              eventHandlers={{
+                dragend: (event) => moveVertex(index, event),
+                contextmenu: () => removeVertex(index)
+              }}
+            />
+          ))}
+          {selectedLocation && (
+            <Marker
+              position={[selectedLocation.latitude, selectedLocation.longitude]}
+              draggable
+              eventHandlers={markerHandlers}
+            />
+          )}
+        </MapContainer>
 
         {/* Selected Location Indicator */}
         {selectedLocation && (
           <motion.div
             initial={{ scale: 0, opacity: 0 }}
             animate={{ scale: 1, opacity: 1 }}
-            className="absolute top-4 right-4"
+            className="absolute top-4 right-4 z-[1000] pointer-events-none"
           >
             <Card className="bg-green-50 border-green-200">
               <CardContent className="p-3">
@@ -112,20 +477,34 @@ const MapPicker: React.FC<MapPickerProps> = ({ onLocationSelect }) => {
                   <CheckCircle className="h-4 w-4 mr-2" />
                   <span className="text-sm font-medium">Location Selected</span>
                 </div>
-                <p className="text-xs text-green-700 mt-1">
-                  {selectedLocation.address}
+                <p className="text-xs text-green-700 mt-1 max-w-xs">
+                  {isResolving ? 'Looking up place name...' : selectedLocation.address}
                 </p>
+                {!isResolving && selectedLocation.approximate && (
+                  <p className="text-xs text-amber-700">Approximate place details; please confirm them below.</p>
+                )}
+                {boundary && (
+                  <p className="text-xs text-green-700">
+                    Boundary: {toAreaUnit(boundary.areaSqMeters, 'acres')} acres /{' '}
+                    {toAreaUnit(boundary.areaSqMeters, 'hectares')} ha
+                  </p>
+                )}
               </CardContent>
             </Card>
           </motion.div>
         )}
-      </div>
 
-      {/* Instructions */}
-      <div className="mt-4 text-center">
-        <p className="text-sm text-gray-600">
-          In a real application, this would be an interactive map powered by Leaflet or Google Maps
-        </p>
+        {mode === 'draw' && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white/90 px-3 py-1 rounded text-sm text-gray-600 pointer-events-none">
+            Click around your farm's edge to outline it; right-click a point to remove it
+          </div>
+        )}
+
+        {mode === 'pin' && !selectedLocation && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white/90 px-3 py-1 rounded text-sm text-gray-600 pointer-events-none">
+            Click the map to drop a pin on your farm, then drag it to adjust
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Button } from './ui/button';
+import { useChainGuard } from '../hooks/use-chain-guard';
+
+interface NetworkGuardProps {
+  children?: React.ReactNode;
+}
+
+/**
+ * Shows a blocking banner while the wallet is on a chain without WeatherShield
+ * contracts. Children (contract actions) only render on a supported network.
+ */
+const NetworkGuard: React.FC<NetworkGuardProps> = ({ children }) => {
+  const { chainId, isGuarding, isCorrectChain, isSwitching, error, switchNetwork, targetNetwork } = useChainGuard();
+
+  if (!isGuarding || isCorrectChain) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Alert variant="destructive" className="bg-red-50">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Wrong network</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          Your wallet is connected to {chainId == null ? 'an unknown network' : `chain ${chainId}`}, where WeatherShield is
+          not deployed.
+          Transactions are disabled until you switch to {targetNetwork.name}.
+        </p>
+        {error && <p className="font-medium">{error}</p>}
+        <Button
+          type="button"
+          size="sm"
+          onClick={switchNetwork}
+          disabled={isSwitching}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isSwitching ? 'Switching...' : `Switch to ${targetNetwork.name}`}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default NetworkGuard;
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatUnits, parseUnits } from 'ethers';
+import { CheckCircle, DollarSign, ExternalLink, XCircle, Circle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import NetworkGuard from './NetworkGuard';
+import { useWallet } from '../hooks/use-wallet';
+import { useTransactions } from '../hooks/use-transactions';
+import { getJsonRpcProvider } from '../lib/celo';
+import { CUSD_DECIMALS, getCusdToken, getPremiumPool } from '../lib/contracts';
+import { getExplorerTxUrl } from '../lib/networks';
+import { describeContractError } from '../lib/contract-errors';
+
+interface PayPremiumDialogProps {
+  defaultAmount?: number;
+}
+
+type StepStatus = 'idle' | 'skipped' | 'signing' | 'pending' | 'confirmed' | 'failed';
+
+interface TxStep {
+  status: StepStatus;
+  hash?: string;
+}
+
+const PayPremiumDialog: React.FC<PayPremiumDialogProps> = ({ defaultAmount }) => {
+  const address = useWallet((state) => state.address);
+  const chainId = useWallet((state) => state.chainId);
+  const signer = useWallet((state) => state.signer);
+  const trackTransaction = useTransactions((state) => state.track);
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(defaultAmount ? String(defaultAmount) : '');
+  const [approveStep, setApproveStep] = useState<TxStep>({ status: 'idle' });
+  const [payStep, setPayStep] = useState<TxStep>({ status: 'idle' });
+  const [error, setError] = useState('');
+
+  const isBusy = [approveStep.status, payStep.status].some((status) => status === 'signing' || status === 'pending');
+
+  const { data: account, isLoading } = useQuery({
+    queryKey: ['cusdAccount', chainId, address],
+    enabled: open && !!address,
+    queryFn: async () => {
+      const provider = getJsonRpcProvider(chainId);
+      const token = getCusdToken(provider, chainId);
+      const poolAddress = await getPremiumPool(provider, chainId).getAddress();
+      const [balance, allowance] = await Promise.all([
+        token.balanceOf(address as string),
+        token.allowance(address as string, poolAddress)
+      ]);
+      return { balance, allowance };
+    }
+  });
+
+  const resetSteps = () => {
+    setApproveStep({ status: 'idle' });
+    setPayStep({ status: 'idle' });
+    setError('');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isBusy) return;
+    setOpen(nextOpen);
+    if (!nextOpen) resetSteps();
+  };
+
+  const handlePay = async () => {
+    resetSteps();
+    if (!signer || !account) {
+      setError('Connect your wallet to pay a premium.');
+      return;
+    }
+
+    let value: bigint;
+    try {
+      value = parseUnits(amount || '0', CUSD_DECIMALS);
+    } catch {
+      setError('Enter a valid cUSD amount.');
+      return;
+    }
+    if (value <= 0n) {
+      setError('Amount must be greater than 0.');
+      return;
+    }
+    if (value > account.balance) {
+      setError('Your cUSD balance is too low for this payment.');
+      return;
+    }
+
+    const token = getCusdToken(signer, chainId);
+    const pool = getPremiumPool(signer, chainId);
+    let step: 'approve' | 'pay' = 'approve';
+    try {
+      if (account.allowance < value) {
+        setApproveStep({ status: 'signing' });
+        const approveTx = await token.approve(await pool.getAddress(), value);
+        setApproveStep({ status: 'pending', hash: approveTx.hash });
+        await trackTransaction(approveTx, 'approve');
+        setApproveStep({ status: 'confirmed', hash: approveTx.hash });
+      } else {
+        setApproveStep({ status: 'skipped' });
+      }
+
+      step = 'pay';
+      setPayStep({ status: 'signing' });
+      const payTx = await pool.payPremium(value);
+      setPayStep({ status: 'pending', hash: payTx.hash });
+      await trackTransaction(payTx, 'payPremium');
+      setPayStep({ status: 'confirmed', hash: payTx.hash });
+    } catch (err) {
+      const setStep = step === 'approve' ? setApproveStep : setPayStep;
+      setStep((prev) => ({ ...prev, status: 'failed' }));
+      setError(describeContractError(err, 'payment'));
+    }
+  };
+
+  const renderStep = (label: string, step: TxStep) => {
+    const explorerUrl = step.hash ? getExplorerTxUrl(step.hash, chainId) : null;
+    return (
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center">
+          {step.status === 'confirmed' || step.status === 'skipped' ? (
+            <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+          ) : step.status === 'failed' ? (
+            <XCircle className="h-4 w-4 mr-2 text-red-600" />
+          ) : step.status === 'signing' || step.status === 'pending' ? (
+            <div className="w-4 h-4 mr-2 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+          ) : (
+            <Circle className="h-4 w-4 mr-2 text-gray-300" />
+          )}
+          <span className="text-gray-900">{label}</span>
+          <span className="ml-2 text-gray-500">
+            {step.status === 'skipped' && '(allowance already sufficient)'}
+            {step.status === 'signing' && '(confirm in wallet)'}
+            {step.status === 'pending' && '(waiting for confirmation)'}
+          </span>
+        </div>
+        {explorerUrl && (
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center text-green-700 hover:text-green-800"
+          >
+            View
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </a>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="mt-3 bg-green-600 hover:bg-green-700" disabled={!address}>
+          <DollarSign className="h-4 w-4 mr-1" />
+          Pay Premium
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay Premium</DialogTitle>
+          <DialogDescription>
+            Premiums are paid in cUSD into the WeatherShield premium pool.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 bg-gray-50 p-4 rounded-lg text-sm">
+            <div>
+              <div className="text-gray-500">cUSD Balance</div>
+              <div className="font-semibold text-gray-900">
+                {isLoading || !account ? '...' : Number(formatUnits(account.balance, CUSD_DECIMALS)).toLocaleString()}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500">Approved for Pool</div>
+              <div className="font-semibold text-gray-900">
+                {isLoading || !account ? '...' : Number(formatUnits(account.allowance, CUSD_DECIMALS)).toLocaleString()}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="premiumAmount">Amount (cUSD)</Label>
+            <Input
+              id="premiumAmount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              disabled={isBusy}
+            />
+          </div>
+
+          {(approveStep.status !== 'idle' || payStep.status !== 'idle') && (
+            <div className="space-y-2 border-t pt-4">
+              {renderStep('Approve cUSD', approveStep)}
+              {renderStep('Pay premium', payStep)}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {payStep.status === 'confirmed' && (
+            <p className="text-sm text-green-700">Premium paid. Your coverage balance has been updated.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <NetworkGuard>
+            <Button
+              onClick={handlePay}
+              disabled={isBusy || isLoading || !account}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {isBusy ? 'Processing...' : 'Pay Premium'}
+            </Button>
+          </NetworkGuard>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PayPremiumDialog;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Activity, CheckCircle, ExternalLink, XCircle } from 'lucide-react';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger
+} from './ui/drawer';
+import { Button } from './ui/button';
+import { useWallet } from '../hooks/use-wallet';
+import { useTransactions } from '../hooks/use-transactions';
+import { getExplorerTxUrl } from '../lib/networks';
+import type { TrackedTransaction } from '../lib/transactions';
+
+const STATUS_LABELS: Record<TrackedTransaction['status'], string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  reverted: 'Reverted',
+  dropped: 'Not mined'
+};
+
+const StatusIcon: React.FC<{ status: TrackedTransaction['status'] }> = ({ status }) => {
+  if (status === 'confirmed') return <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />;
+  if (status === 'reverted') return <XCircle className="h-5 w-5 text-red-600 flex-shrink-0" />;
+  if (status === 'dropped') return <XCircle className="h-5 w-5 text-gray-400 flex-shrink-0" />;
+  return <div className="w-5 h-5 border-2 border-green-600 border-t-transparent rounded-full animate-spin flex-shrink-0"></div>;
+};
+
+const RecentActivity: React.FC = () => {
+  const address = useWallet((state) => state.address);
+  const allTransactions = useTransactions((state) => state.transactions);
+  const clearSettled = useTransactions((state) => state.clearSettled);
+
+  const transactions = address
+    ? allTransactions.filter((tx) => tx.account === address.toLowerCase())
+    : [];
+  const pendingCount = transactions.filter((tx) => tx.status === 'pending').length;
+
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Activity className="h-4 w-4 mr-2" />
+          Activity
+          {pendingCount > 0 && (
+            <span className="ml-2 rounded-full bg-green-600 px-2 text-xs text-white">{pendingCount}</span>
+          )}
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-2xl">
+          <DrawerHeader>
+            <DrawerTitle>Recent Activity</DrawerTitle>
+            <DrawerDescription>Transactions sent from this wallet on this device</DrawerDescription>
+          </DrawerHeader>
+
+          <div className="max-h-[50vh] overflow-y-auto px-4 space-y-2">
+            {transactions.length === 0 ? (
+              <p className="text-sm text-gray-500 py-6 text-center">No transactions yet.</p>
+            ) : (
+              transactions.map((tx) => {
+                const explorerUrl = getExplorerTxUrl(tx.hash, tx.chainId);
+                return (
+                  <div key={tx.hash} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <StatusIcon status={tx.status} />
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900">{tx.label}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {STATUS_LABELS[tx.status]}
+                          {' · '}
+                          {formatDistanceToNow(tx.settledAt ?? tx.submittedAt, { addSuffix: true })}
+                        </div>
+                      </div>
+                    </div>
+                    {explorerUrl && (
+                      <a
+                        href={explorerUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-sm text-green-700 hover:text-green-800 flex-shrink-0"
+                      >
+                        View
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </a>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <DrawerFooter>
+            <Button
+              variant="outline"
+              onClick={() => address && clearSettled(address)}
+              disabled={transactions.length === pendingCount}
+            >
+              Clear finished
+            </Button>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default RecentActivity;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Navigate, useLocation } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { useWallet } from '../hooks/use-wallet';
+import { useFarmer } from '../hooks/use-farmer';
+import { useReturnTo, withReturnTo } from '../hooks/use-return-to';
+import { describeContractError } from '../lib/contract-errors';
+
+interface RouteGuardProps {
+  // 'registered': connected wallet with an on-chain FarmerRegistry record (dashboard, settings).
+  // 'unregistered': anyone not yet registered; the wallet is connected on the page itself (register).
+  require: 'registered' | 'unregistered';
+  children: React.ReactNode;
+}
+
+const LoadingShell: React.FC = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="text-center"
+    >
+      <div className="w-16 h-16 border-4 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+      <p className="text-gray-600">Checking your wallet...</p>
+    </motion.div>
+  </div>
+);
+
+const RouteGuard: React.FC<RouteGuardProps> = ({ require, children }) => {
+  const location = useLocation();
+  const returnTo = useReturnTo();
+  const address = useWallet((state) => state.address);
+  const isRestoring = useWallet((state) => state.isRestoring);
+  const farmerQuery = useFarmer();
+  const currentPath = `${location.pathname}${location.search}`;
+
+  if (require === 'unregistered') {
+    // Keep the page mounted while the lookup runs so an in-progress registration is not reset.
+    if (farmerQuery.data?.isRegistered) {
+      return <Navigate to={returnTo ?? '/dashboard'} replace />;
+    }
+    return <>{children}</>;
+  }
+
+  if (isRestoring) {
+    return <LoadingShell />;
+  }
+
+  if (!address) {
+    return <Navigate to={withReturnTo('/', currentPath)} replace />;
+  }
+
+  if (farmerQuery.isError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md w-full text-center">
+          <CardHeader>
+            <AlertTriangle className="h-12 w-12 text-red-600 mx-auto mb-2" />
+            <CardTitle>Could Not Load Your Farm</CardTitle>
+            <CardDescription>
+              {describeContractError(farmerQuery.error, 'farmer-read')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => farmerQuery.refetch()}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!farmerQuery.data) {
+    return <LoadingShell />;
+  }
+
+  if (!farmerQuery.data.isRegistered) {
+    return <Navigate to={withReturnTo('/register', currentPath)} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RouteGuard;
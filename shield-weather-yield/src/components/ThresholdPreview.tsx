@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Badge } from './ui/badge';
+import { useWeatherHistory } from '../hooks/use-weather-history';
+import {
+  THRESHOLD_LIMITS,
+  countTriggerDays,
+  type ThresholdBand,
+  type ThresholdMetric,
+  type WeatherThresholds
+} from '../lib/thresholds';
+
+interface ThresholdPreviewProps {
+  latitude?: number;
+  longitude?: number;
+  thresholds: WeatherThresholds;
+}
+
+const HISTORY_DAYS = 90;
+
+const metrics: { key: ThresholdMetric; label: string; lines: { dataKey: string; color: string; name: string }[] }[] = [
+  {
+    key: 'temperature',
+    label: 'Temperature',
+    lines: [
+      { dataKey: 'temperatureMax', color: '#ef4444', name: 'Daily high' },
+      { dataKey: 'temperatureMin', color: '#3b82f6', name: 'Daily low' }
+    ]
+  },
+  { key: 'rainfall', label: 'Rainfall', lines: [{ dataKey: 'rainfall', color: '#3b82f6', name: 'Rainfall' }] },
+  { key: 'humidity', label: 'Humidity', lines: [{ dataKey: 'humidity', color: '#06b6d4', name: 'Humidity' }] },
+  { key: 'windSpeed', label: 'Wind', lines: [{ dataKey: 'windSpeed', color: '#6b7280', name: 'Max wind' }] }
+];
+
+// Ignore half-typed or out-of-range values so the chart axes do not jump around while typing.
+const usableBand = (metric: ThresholdMetric, band?: ThresholdBand): ThresholdBand => {
+  const { floor, ceiling } = THRESHOLD_LIMITS[metric];
+  const usable = (value?: number) =>
+    value != null && Number.isFinite(value) && value >= floor && value <= ceiling ? value : undefined;
+  return { min: usable(band?.min), max: usable(band?.max) };
+};
+
+const ThresholdPreview: React.FC<ThresholdPreviewProps> = ({ latitude, longitude, thresholds }) => {
+  const { data, isLoading, isError } = useWeatherHistory(latitude, longitude, HISTORY_DAYS);
+  const history = data?.days;
+
+  const bands = {
+    temperature: usableBand('temperature', thresholds.temperature),
+    rainfall: usableBand('rainfall', thresholds.rainfall),
+    humidity: usableBand('humidity', thresholds.humidity),
+    windSpeed: usableBand('windSpeed', thresholds.windSpeed)
+  };
+  const counts = history ? countTriggerDays(history, bands) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>How often would this have paid out?</CardTitle>
+        <CardDescription>
+          Your thresholds against the last {HISTORY_DAYS} days of weather at your farm
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {latitude == null || longitude == null ? (
+          <p className="text-sm text-gray-500">Pick your farm location to preview your thresholds.</p>
+        ) : isLoading ? (
+          <div className="h-64 flex items-center justify-center">
+            <div className="w-8 h-8 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : isError || !history || !counts ? (
+          <p className="text-sm text-gray-500">Weather history is unavailable right now; the preview will return when it is.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              At least one threshold would have triggered on{' '}
+              <span className="font-semibold">{counts.any}</span> of {history.length} days.
+              {!data.complete && ' Older days have more readings than the server returns at once, so they are left out.'}
+            </p>
+            <Tabs defaultValue="temperature" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-4">
+                {metrics.map((metric) => (
+                  <TabsTrigger key={metric.key} value={metric.key}>
+                    {metric.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {metrics.map((metric) => {
+                const band = bands[metric.key];
+                const { unit } = THRESHOLD_LIMITS[metric.key];
+                return (
+                  <TabsContent key={metric.key} value={metric.key} className="space-y-2">
+                    <Badge variant={counts[metric.key] > 0 ? 'destructive' : 'secondary'}>
+                      Triggered on {counts[metric.key]} of {history.length} days
+                    </Badge>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={history}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis
+                            dataKey="date"
+                            tickFormatter={(value) =>
+                              new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                            }
+                          />
+                          <YAxis unit={unit} />
+                          <Tooltip formatter={(value: number) => `${value} ${unit}`} />
+                          {/* Shaded band is the range that does not pay out */}
+                          {(band.min != null || band.max != null) && (
+                            <ReferenceArea y1={band.min} y2={band.max} fill="#16a34a" fillOpacity={0.08} ifOverflow="extendDomain" />
+                          )}
+                          {band.min != null && (
+                            <ReferenceLine y={band.min} stroke="#dc2626" strokeDasharray="4 4" ifOverflow="extendDomain" />
+                          )}
+                          {band.max != null && (
+                            <ReferenceLine y={band.max} stroke="#dc2626" strokeDasharray="4 4" ifOverflow="extendDomain" />
+                          )}
+                          {metric.lines.map((line) => (
+                            <Line
+                              key={line.dataKey}
+                              type="monotone"
+                              dataKey={line.dataKey}
+                              name={line.name}
+                              stroke={line.color}
+                              dot={false}
+                              strokeWidth={2}
+                            />
+                          ))}
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </TabsContent>
+                );
+              })}
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThresholdPreview;
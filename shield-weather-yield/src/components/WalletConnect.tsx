@@ -1,53 +1,33 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { motion } from 'framer-motion';
-import { Wallet, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { Wallet, CheckCircle, AlertCircle, ExternalLink, Clock, UserX, XCircle, Download } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { useWallet } from '../hooks/use-wallet';
 
 interface WalletConnectProps {
-  onConnect: (address: string) => void;
+  onConnect?: (address: string) => void;
 }
 
 const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
-
-  const handleConnect = async (walletType: 'valora' | 'metamask') => {
-    setIsConnecting(true);
-    setConnectionStatus('connecting');
-    setError('');
-
-    try {
-      // Simulate wallet connection
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock successful connection
-      const mockAddress = '0x1234567890123456789012345678901234567890';
-      setConnectionStatus('connected');
-      onConnect(mockAddress);
-    } catch (err) {
-      setConnectionStatus('error');
-      setError('Failed to connect wallet. Please try again.');
-    } finally {
-      setIsConnecting(false);
-    }
+  const { address, status, error, errorCode, connect, clearError } = useWallet();
+
+  const connectionStatus =
+    status === 'error' && errorCode !== 'unknown' ? errorCode : status === 'disconnected' ? 'idle' : status;
+
+  const handleConnect = async () => {
+    await connect();
+    const { address: connected } = useWallet.getState();
+    if (connected) onConnect?.(connected);
   };
 
+  // Every option goes through the injected EIP-1193 provider, so there is a single entry point.
   const wallets = [
     {
-      name: 'Valora',
-      description: 'Celo mobile wallet',
-      icon: '📱',
-      type: 'valora' as const,
-      color: 'bg-purple-50 border-purple-200 hover:bg-purple-100'
-    },
-    {
-      name: 'MetaMask',
-      description: 'Browser extension wallet',
+      name: 'Browser Wallet',
+      description: 'MetaMask, Valora or the Celo Extension Wallet',
       icon: '🦊',
-      type: 'metamask' as const,
       color: 'bg-orange-50 border-orange-200 hover:bg-orange-100'
     }
   ];
@@ -70,7 +50,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
             </p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 gap-4">
             {wallets.map((wallet, index) => (
               <motion.div
                 key={wallet.name}
@@ -80,7 +60,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
               >
                 <Card 
                   className={`cursor-pointer transition-all duration-200 ${wallet.color}`}
-                  onClick={() => handleConnect(wallet.type)}
+                  onClick={handleConnect}
                 >
                   <CardContent className="p-6">
                     <div className="flex items-center space-x-4">
@@ -139,12 +119,118 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
           <p className="text-gray-600 mb-4">
             Your wallet has been successfully connected
           </p>
+          <p className="font-mono text-sm text-gray-700 mb-4 break-all">
+            {address}
+          </p>
           <Badge variant="outline" className="text-green-600 border-green-200">
             Connected
           </Badge>
         </motion.div>
       )}
 
+      {connectionStatus === 'no-extension' && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center py-8"
+        >
+          <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Download className="h-8 w-8 text-orange-600" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            No Wallet Found
+          </h3>
+          <p className="text-gray-600 mb-4">
+            {error}
+          </p>
+          <div className="flex justify-center space-x-2">
+            <Button asChild variant="outline">
+              <a href="https://metamask.io/download/" target="_blank" rel="noopener noreferrer">
+                Install MetaMask
+              </a>
+            </Button>
+            <Button 
+              onClick={clearError}
+              variant="outline"
+            >
+              Try Again
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {connectionStatus === 'rejected' && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center py-8"
+        >
+          <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <XCircle className="h-8 w-8 text-yellow-600" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Connection Rejected
+          </h3>
+          <p className="text-gray-600 mb-4">
+            {error}
+          </p>
+          <Button 
+            onClick={clearError}
+            variant="outline"
+          >
+            Try Again
+          </Button>
+        </motion.div>
+      )}
+
+      {connectionStatus === 'pending' && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center py-8"
+        >
+          <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Clock className="h-8 w-8 text-yellow-600" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Request Already Open
+          </h3>
+          <p className="text-gray-600 mb-4">
+            {error}
+          </p>
+          <Button 
+            onClick={clearError}
+            variant="outline"
+          >
+            Try Again
+          </Button>
+        </motion.div>
+      )}
+
+      {connectionStatus === 'no-accounts' && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center py-8"
+        >
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <UserX className="h-8 w-8 text-gray-600" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            No Account Available
+          </h3>
+          <p className="text-gray-600 mb-4">
+            {error}
+          </p>
+          <Button 
+            onClick={clearError}
+            variant="outline"
+          >
+            Try Again
+          </Button>
+        </motion.div>
+      )}
+
       {connectionStatus === 'error' && (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
@@ -161,7 +247,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
             {error}
           </p>
           <Button 
-            onClick={() => setConnectionStatus('idle')}
+            onClick={clearError}
             variant="outline"
           >
             Try Again
@@ -1,40 +1,100 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { CalendarDays } from 'lucide-react';
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type TooltipProps
+} from 'recharts';
+import type { DateRange } from 'react-day-picker';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { useWeatherRange } from '../hooks/use-weather-history';
+import { THRESHOLD_LIMITS, countTriggerDays, type ThresholdBand, type ThresholdMetric, type WeatherThresholds } from '../lib/thresholds';
+import { downsampleDaily, type WeatherPeriod } from '../lib/weather-history';
 
-const WeatherChart: React.FC = () => {
-  // Mock data for the chart
-  const weatherData = [
-    { date: '2024-01-01', temperature: 15, rainfall: 5, humidity: 65, windSpeed: 12 },
-    { date: '2024-01-02', temperature: 18, rainfall: 8, humidity: 70, windSpeed: 15 },
-    { date: '2024-01-03', temperature: 22, rainfall: 3, humidity: 60, windSpeed: 10 },
-    { date: '2024-01-04', temperature: 25, rainfall: 0, humidity: 55, windSpeed: 8 },
-    { date: '2024-01-05', temperature: 28, rainfall: 2, humidity: 50, windSpeed: 6 },
-    { date: '2024-01-06', temperature: 30, rainfall: 12, humidity: 75, windSpeed: 18 },
-    { date: '2024-01-07', temperature: 26, rainfall: 15, humidity: 80, windSpeed: 20 },
-    { date: '2024-01-08', temperature: 20, rainfall: 8, humidity: 70, windSpeed: 14 },
-    { date: '2024-01-09', temperature: 17, rainfall: 4, humidity: 65, windSpeed: 11 },
-    { date: '2024-01-10', temperature: 19, rainfall: 6, humidity: 68, windSpeed: 13 },
-    { date: '2024-01-11', temperature: 23, rainfall: 1, humidity: 58, windSpeed: 9 },
-    { date: '2024-01-12', temperature: 27, rainfall: 0, humidity: 52, windSpeed: 7 },
-    { date: '2024-01-13', temperature: 31, rainfall: 3, humidity: 48, windSpeed: 5 },
-    { date: '2024-01-14', temperature: 29, rainfall: 7, humidity: 62, windSpeed: 12 },
-  ];
-
-  const CustomTooltip = ({ active, payload, label }: any) => {
+interface WeatherChartProps {
+  latitude?: number;
+  longitude?: number;
+  // The farmer's payout thresholds, drawn as reference bands.
+  thresholds?: WeatherThresholds;
+}
+
+type RangePreset = 7 | 30 | 90 | 'custom';
+
+const PRESETS: RangePreset[] = [7, 30, 90];
+// Longest custom range. Busy locations can have more backend readings than the
+// provider pages through; the chart then says which days are left out.
+const MAX_RANGE_DAYS = 366;
+// More points than this are merged into multi-day periods.
+const MAX_CHART_POINTS = 60;
+const DAY_MS = 86_400_000;
+
+const metrics: { key: ThresholdMetric; label: string; lines: { dataKey: keyof WeatherPeriod; color: string; name: string }[] }[] = [
+  {
+    key: 'temperature',
+    label: 'Temperature',
+    lines: [
+      { dataKey: 'temperatureMax', color: '#10b981', name: 'High' },
+      { dataKey: 'temperatureMin', color: '#3b82f6', name: 'Low' }
+    ]
+  },
+  { key: 'rainfall', label: 'Rainfall', lines: [{ dataKey: 'rainfall', color: '#3b82f6', name: 'Rainfall' }] },
+  { key: 'humidity', label: 'Humidity', lines: [{ dataKey: 'humidity', color: '#06b6d4', name: 'Humidity' }] },
+  { key: 'windSpeed', label: 'Wind', lines: [{ dataKey: 'windSpeed', color: '#8b5cf6', name: 'Max wind' }] }
+];
+
+const formatDay = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+const outsideBand = (value: number, band?: ThresholdBand) =>
+  band != null && ((band.max != null && value > band.max) || (band.min != null && value < band.min));
+
+const WeatherChart: React.FC<WeatherChartProps> = ({ latitude, longitude, thresholds = {} }) => {
+  const [preset, setPreset] = useState<RangePreset>(30);
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+
+  const { start, end } = useMemo(() => {
+    if (preset === 'custom' && customRange?.from) {
+      return { start: startOfUtcDay(customRange.from), end: startOfUtcDay(customRange.to ?? customRange.from) };
+    }
+    const today = startOfUtcDay(new Date());
+    const days = preset === 'custom' ? 30 : preset;
+    return { start: new Date(today.getTime() - (days - 1) * DAY_MS), end: today };
+  }, [preset, customRange]);
+
+  const { data, isLoading, isError } = useWeatherRange(latitude, longitude, start, end);
+  const history = data?.days;
+  const periods = useMemo(() => downsampleDaily(history ?? [], MAX_CHART_POINTS), [history]);
+  const counts = history ? countTriggerDays(history, thresholds) : null;
+  const merged = periods.some((period) => period.endDate !== period.date);
+
+  const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
     if (active && payload && payload.length) {
+      const period = payload[0].payload as WeatherPeriod;
       return (
         <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
-          <p className="font-medium text-gray-900">{label}</p>
-          {payload.map((entry: any, index: number) => (
+          <p className="font-medium text-gray-900">
+            {formatDay(period.date)}
+            {period.endDate !== period.date && ` – ${formatDay(period.endDate)}`}
+          </p>
+          {payload.map((entry, index) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.dataKey}: {entry.value}
-              {entry.dataKey === 'temperature' && '°C'}
-              {entry.dataKey === 'rainfall' && 'mm'}
-              {entry.dataKey === 'humidity' && '%'}
-              {entry.dataKey === 'windSpeed' && ' km/h'}
+              {entry.name}: {entry.value}
+              {entry.unit}
             </p>
           ))}
         </div>
@@ -43,6 +103,18 @@ const WeatherChart: React.FC = () => {
     return null;
   };
 
+  // Red dots mark the periods that crossed a threshold.
+  const breachDot = (band: ThresholdBand | undefined, dataKey: keyof WeatherPeriod) =>
+    function BreachDot(props: { cx?: number; cy?: number; index?: number; payload?: WeatherPeriod }) {
+      const value = props.payload?.[dataKey];
+      if (typeof value !== 'number' || !outsideBand(value, band)) return <g key={props.index} />;
+      return <circle key={props.index} cx={props.cx} cy={props.cy} r={4} fill="#dc2626" stroke="#fff" strokeWidth={1} />;
+    };
+
+  const rangeLabel = history?.length
+    ? `${formatDay(history[0].date)} – ${formatDay(history[history.length - 1].date)}`
+    : `${formatDay(start)} – ${formatDay(end)}`;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -51,114 +123,134 @@ const WeatherChart: React.FC = () => {
     >
       <Card>
         <CardHeader>
-          <CardTitle>Weather Trends</CardTitle>
-          <CardDescription>
-            Historical weather data for your farm location
-          </CardDescription>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Weather Trends</CardTitle>
+              <CardDescription>
+                Historical weather for your farm, {rangeLabel}
+                {merged && ' (multi-day periods)'}
+              </CardDescription>
+              {data && !data.complete && history?.length ? (
+                <p className="text-sm text-amber-700">
+                  Only {formatDay(history[0].date)} onwards is shown; earlier days have more readings than the server
+                  returns at once.
+                </p>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map((days) => (
+                <Button
+                  key={days}
+                  size="sm"
+                  variant={preset === days ? 'default' : 'outline'}
+                  className={preset === days ? 'bg-green-600 hover:bg-green-700' : undefined}
+                  onClick={() => setPreset(days)}
+                >
+                  {days}d
+                </Button>
+              ))}
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant={preset === 'custom' ? 'default' : 'outline'}
+                    className={preset === 'custom' ? 'bg-green-600 hover:bg-green-700' : undefined}
+                  >
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    Custom
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    numberOfMonths={2}
+                    selected={customRange}
+                    onSelect={(range) => {
+                      setCustomRange(range);
+                      if (range?.from) setPreset('custom');
+                    }}
+                    max={MAX_RANGE_DAYS}
+                    disabled={{ after: new Date() }}
+                    defaultMonth={new Date(Date.now() - 30 * DAY_MS)}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="temperature" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="temperature">Temperature</TabsTrigger>
-              <TabsTrigger value="rainfall">Rainfall</TabsTrigger>
-              <TabsTrigger value="humidity">Humidity</TabsTrigger>
-              <TabsTrigger value="wind">Wind</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="temperature" className="space-y-4">
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={weatherData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis 
-                      dataKey="date" 
-                      tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Area
-                      type="monotone"
-                      dataKey="temperature"
-                      stroke="#10b981"
-                      fill="#10b981"
-                      fillOpacity={0.2}
-                      strokeWidth={2}
-                    />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
-            </TabsContent>
-
-            <TabsContent value="rainfall" className="space-y-4">
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={weatherData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis 
-                      dataKey="date" 
-                      tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Area
-                      type="monotone"
-                      dataKey="rainfall"
-                      stroke="#3b82f6"
-                      fill="#3b82f6"
-                      fillOpacity={0.2}
-                      strokeWidth={2}
-                    />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
-            </TabsContent>
-
-            <TabsContent value="humidity" className="space-y-4">
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={weatherData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis 
-                      dataKey="date" 
-                      tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Line
-                      type="monotone"
-                      dataKey="humidity"
-                      stroke="#06b6d4"
-                      strokeWidth={2}
-                      dot={{ fill: '#06b6d4', strokeWidth: 2, r: 4 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-            </TabsContent>
-
-            <TabsContent value="wind" className="space-y-4">
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={weatherData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis 
-                      dataKey="date" 
-                      tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Line
-                      type="monotone"
-                      dataKey="windSpeed"
-                      stroke="#8b5cf6"
-                      strokeWidth={2}
-                      dot={{ fill: '#8b5cf6', strokeWidth: 2, r: 4 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-            </TabsContent>
-          </Tabs>
+          {latitude == null || longitude == null ? (
+            <p className="text-sm text-gray-500">Your farm location is needed to load weather history.</p>
+          ) : isLoading ? (
+            <div className="h-80 flex items-center justify-center">
+              <div className="w-8 h-8 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : isError && !history ? (
+            <p className="text-sm text-gray-500">Weather history is unavailable right now. Please try again later.</p>
+          ) : !history?.length || !counts ? (
+            <p className="text-sm text-gray-500">No weather records for this period yet.</p>
+          ) : (
+            <Tabs defaultValue="temperature" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-4">
+                {metrics.map((metric) => (
+                  <TabsTrigger key={metric.key} value={metric.key}>
+                    {metric.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {metrics.map((metric) => {
+                const band: ThresholdBand | undefined = thresholds[metric.key];
+                const hasBand = band?.min != null || band?.max != null;
+                // Merged rainfall points are period totals, which the daily limits don't apply to.
+                const periodTotals = merged && metric.key === 'rainfall';
+                const drawBand = hasBand && !periodTotals;
+                const { unit } = THRESHOLD_LIMITS[metric.key];
+                return (
+                  <TabsContent key={metric.key} value={metric.key} className="space-y-2">
+                    {hasBand && (
+                      <Badge variant={counts[metric.key] > 0 ? 'destructive' : 'secondary'}>
+                        Outside your threshold on {counts[metric.key]} of {history.length} days
+                      </Badge>
+                    )}
+                    <div className="h-80">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={periods}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="date" tickFormatter={formatDay} />
+                          <YAxis unit={unit} />
+                          <Tooltip content={<CustomTooltip />} />
+                          {/* Shaded band is the range that does not pay out */}
+                          {drawBand && (
+                            <ReferenceArea y1={band?.min} y2={band?.max} fill="#16a34a" fillOpacity={0.08} ifOverflow="extendDomain" />
+                          )}
+                          {drawBand && band?.min != null && (
+                            <ReferenceLine y={band.min} stroke="#dc2626" strokeDasharray="4 4" ifOverflow="extendDomain" />
+                          )}
+                          {drawBand && band?.max != null && (
+                            <ReferenceLine y={band.max} stroke="#dc2626" strokeDasharray="4 4" ifOverflow="extendDomain" />
+                          )}
+                          {metric.lines.map((line) => (
+                            <Line
+                              key={line.dataKey}
+                              type="monotone"
+                              dataKey={line.dataKey}
+                              name={periodTotals ? `${line.name} (period total)` : line.name}
+                              unit={unit}
+                              stroke={line.color}
+                              strokeWidth={2}
+                              dot={breachDot(drawBand ? band : undefined, line.dataKey)}
+                              activeDot={{ r: 4 }}
+                            />
+                          ))}
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </TabsContent>
+                );
+              })}
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </motion.div>
@@ -14,13 +14,16 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
+import type { WeatherObservation } from '../types';
 
 interface WeatherWidgetProps {
-  weatherData: any;
+  weatherData?: WeatherObservation;
   detailed?: boolean;
+  // Shown in place of the loading state when the provider request failed.
+  error?: string;
 }
 
-const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = false }) => {
+const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = false, error }) => {
   if (!weatherData) {
     return (
       <Card>
@@ -32,7 +35,9 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-center h-32">
-            <div className="text-gray-500">Loading weather data...</div>
+            <div className={error ? 'text-red-600 text-sm text-center' : 'text-gray-500'}>
+              {error ?? 'Loading weather data...'}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -46,6 +51,7 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
       case 'clouds':
         return <Cloud className="h-8 w-8 text-gray-500" />;
       case 'rain':
+      case 'drizzle':
         return <CloudRain className="h-8 w-8 text-blue-500" />;
       case 'snow':
         return <CloudSnow className="h-8 w-8 text-blue-300" />;
@@ -72,7 +78,7 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
     return { level: 'Very Heavy', color: 'bg-blue-400 text-blue-900' };
   };
 
-  const rainIntensity = getRainIntensity(weatherData.rainfall?.value || 0);
+  const rainIntensity = getRainIntensity(weatherData.rainfall);
 
   return (
     <Card className="hover:shadow-lg transition-shadow duration-300">
@@ -87,7 +93,8 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
           </Badge>
         </CardTitle>
         <CardDescription>
-          Real-time weather conditions for your farm
+          Real-time weather conditions for your farm · Updated{' '}
+          {new Date(weatherData.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -99,17 +106,19 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
           transition={{ duration: 0.5 }}
         >
           <div className="flex items-center justify-center mb-4">
-            {getWeatherIcon(weatherData.weatherCondition?.main)}
+            {getWeatherIcon(weatherData.condition)}
           </div>
-          <div className={`text-4xl font-bold ${getTemperatureColor(weatherData.temperature?.current || 0)}`}>
-            {weatherData.temperature?.current}°C
+          <div className={`text-4xl font-bold ${getTemperatureColor(weatherData.temperature)}`}>
+            {weatherData.temperature}°C
           </div>
           <div className="text-lg text-gray-600 capitalize">
-            {weatherData.weatherCondition?.description}
-          </div>
-          <div className="text-sm text-gray-500">
-            Feels like {weatherData.temperature?.feelsLike}°C
+            {weatherData.description}
           </div>
+          {weatherData.feelsLike !== undefined && (
+            <div className="text-sm text-gray-500">
+              Feels like {weatherData.feelsLike}°C
+            </div>
+          )}
         </motion.div>
 
         {/* Weather Metrics Grid */}
@@ -128,11 +137,11 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
             </div>
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
-                <span>Min: {weatherData.temperature?.min}°C</span>
-                <span>Max: {weatherData.temperature?.max}°C</span>
+                <span>Min: {weatherData.temperatureMin}°C</span>
+                <span>Max: {weatherData.temperatureMax}°C</span>
               </div>
               <Progress 
-                value={(weatherData.temperature?.current / weatherData.temperature?.max) * 100} 
+                value={(weatherData.temperature / weatherData.temperatureMax) * 100} 
                 className="h-2"
               />
             </div>
@@ -152,10 +161,10 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
             </div>
             <div className="space-y-2">
               <div className="text-lg font-semibold">
-                {weatherData.humidity?.value}%
+                {weatherData.humidity}%
               </div>
               <Progress 
-                value={weatherData.humidity?.value} 
+                value={weatherData.humidity} 
                 className="h-2"
               />
             </div>
@@ -175,7 +184,7 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
             </div>
             <div className="space-y-2">
               <div className="text-lg font-semibold">
-                {weatherData.rainfall?.value}mm
+                {weatherData.rainfall}mm
               </div>
               <Badge className={rainIntensity.color}>
                 {rainIntensity.level}
@@ -197,11 +206,13 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
             </div>
             <div className="space-y-2">
               <div className="text-lg font-semibold">
-                {weatherData.wind?.speed} km/h
-              </div>
-              <div className="text-xs text-gray-500">
-                {weatherData.wind?.direction}°
+                {weatherData.windSpeed} km/h
               </div>
+              {weatherData.windDirection !== undefined && (
+                <div className="text-xs text-gray-500">
+                  {weatherData.windDirection}°
+                </div>
+              )}
             </div>
           </motion.div>
         </div>
@@ -217,26 +228,26 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
             <div className="grid grid-cols-2 gap-4">
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Pressure</span>
-                <span className="text-sm font-medium">{weatherData.pressure?.value} hPa</span>
+                <span className="text-sm font-medium">{weatherData.pressure ?? '—'} hPa</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Visibility</span>
-                <span className="text-sm font-medium">{weatherData.visibility?.value} km</span>
+                <span className="text-sm font-medium">{weatherData.visibility ?? '—'} km</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">UV Index</span>
-                <span className="text-sm font-medium">{weatherData.uvIndex?.value}</span>
+                <span className="text-sm font-medium">{weatherData.uvIndex ?? '—'}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Cloud Cover</span>
-                <span className="text-sm font-medium">{weatherData.cloudCover?.value}%</span>
+                <span className="text-sm font-medium">{weatherData.cloudCover ?? '—'}%</span>
               </div>
             </div>
           </motion.div>
         )}
 
         {/* Weather Alerts */}
-        {weatherData.alerts && weatherData.alerts.length > 0 && (
+        {weatherData.alerts.length > 0 && (
           <motion.div 
             className="space-y-2"
             initial={{ opacity: 0, y: 20 }}
@@ -244,7 +255,7 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({ weatherData, detailed = f
             transition={{ duration: 0.5, delay: 0.6 }}
           >
             <div className="text-sm font-medium text-red-600">Weather Alerts</div>
-            {weatherData.alerts.map((alert: any, index: number) => (
+            {weatherData.alerts.map((alert, index) => (
               <div key={index} className="bg-red-50 border border-red-200 rounded-lg p-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-red-800">{alert.event}</span>
@@ -0,0 +1,206 @@
+import { useSyncExternalStore } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { getAuthToken, onAuthTokenChange } from "@/lib/api-client";
+import {
+  addClaimEvidence,
+  getClaim,
+  getClaimStats,
+  getClaimTimeline,
+  getClaims,
+  getContractEvents,
+  getContractStatus,
+  getCurrentWeather,
+  getFarmerStats,
+  getProfile,
+  getWeatherAlerts,
+  getWeatherForecast,
+  getWeatherRecords,
+  getWeatherStats,
+  registerInsurance,
+  updateProfile,
+  updateWeatherThresholds,
+  type ClaimEvidence,
+  type ContractEventType,
+  type ProfileUpdate,
+} from "@/lib/api";
+import type { WeatherThresholds } from "@/lib/thresholds";
+import { useWallet } from "@/hooks/use-wallet";
+import type { ClaimStatus } from "@/types";
+
+// apiRequest already retries GETs with backoff; a second retry layer would multiply the wait.
+const API_QUERY_OPTIONS = { retry: false } as const;
+
+/** True while a backend JWT is stored. */
+export function useApiAuthenticated(): boolean {
+  return useSyncExternalStore(onAuthTokenChange, () => !!getAuthToken());
+}
+
+/* ----------------------------------------------------------------- Farmers */
+
+export function useProfile() {
+  const isAuthenticated = useApiAuthenticated();
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "profile"],
+    enabled: isAuthenticated,
+    queryFn: ({ signal }) => getProfile(signal),
+  });
+}
+
+export function useFarmerStats() {
+  const isAuthenticated = useApiAuthenticated();
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "farmerStats"],
+    enabled: isAuthenticated,
+    queryFn: ({ signal }) => getFarmerStats(signal),
+  });
+}
+
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (update: ProfileUpdate) => updateProfile(update),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["api", "profile"] }),
+  });
+}
+
+export function useUpdateWeatherThresholds() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (thresholds: WeatherThresholds) => updateWeatherThresholds(thresholds),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["api", "profile"] }),
+  });
+}
+
+export function useRegisterInsurance() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: { premiumAmount: number; coverageAmount: number }) => registerInsurance(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["api"] }),
+  });
+}
+
+/* ------------------------------------------------------------------ Claims */
+
+export function useBackendClaims(filter: { status?: ClaimStatus; page?: number; limit?: number } = {}) {
+  const isAuthenticated = useApiAuthenticated();
+  const chainId = useWallet((state) => state.chainId);
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "claims", filter, chainId],
+    enabled: isAuthenticated,
+    queryFn: ({ signal }) => getClaims({ ...filter, chainId }, signal),
+  });
+}
+
+export function useClaimDetail(id: string | undefined) {
+  const isAuthenticated = useApiAuthenticated();
+  const chainId = useWallet((state) => state.chainId);
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "claim", id, chainId],
+    enabled: isAuthenticated && !!id,
+    queryFn: ({ signal }) => getClaim(id as string, chainId, signal),
+  });
+}
+
+export function useAddClaimEvidence(id: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (evidence: Omit<ClaimEvidence, "uploadedAt">) => addClaimEvidence(id, evidence),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["api", "claim", id] }),
+  });
+}
+
+export function useClaimStats() {
+  const isAuthenticated = useApiAuthenticated();
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "claimStats"],
+    enabled: isAuthenticated,
+    queryFn: ({ signal }) => getClaimStats(signal),
+  });
+}
+
+export function useClaimTimeline(months = 6) {
+  const isAuthenticated = useApiAuthenticated();
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "claimTimeline", months],
+    enabled: isAuthenticated,
+    queryFn: ({ signal }) => getClaimTimeline(months, signal),
+  });
+}
+
+/* ----------------------------------------------------------------- Weather */
+
+// Weather routes are public, so these only wait for a location.
+const hasLocation = (latitude?: number, longitude?: number) => latitude != null && longitude != null;
+
+export function useCurrentWeather(latitude?: number, longitude?: number) {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "weather", "current", latitude, longitude],
+    enabled: hasLocation(latitude, longitude),
+    queryFn: ({ signal }) => getCurrentWeather({ latitude: latitude as number, longitude: longitude as number }, signal),
+  });
+}
+
+export function useWeatherRecords(latitude: number | undefined, longitude: number | undefined, start: Date, end: Date) {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "weather", "history", latitude, longitude, start.toISOString(), end.toISOString()],
+    enabled: hasLocation(latitude, longitude),
+    queryFn: ({ signal }) =>
+      getWeatherRecords({ latitude: latitude as number, longitude: longitude as number, start, end }, signal),
+  });
+}
+
+export function useWeatherStats(latitude: number | undefined, longitude: number | undefined, start: Date, end: Date) {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "weather", "stats", latitude, longitude, start.toISOString(), end.toISOString()],
+    enabled: hasLocation(latitude, longitude),
+    queryFn: ({ signal }) =>
+      getWeatherStats({ latitude: latitude as number, longitude: longitude as number, start, end }, signal),
+  });
+}
+
+export function useWeatherAlerts(latitude?: number, longitude?: number) {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "weather", "alerts", latitude, longitude],
+    enabled: hasLocation(latitude, longitude),
+    queryFn: ({ signal }) => getWeatherAlerts({ latitude: latitude as number, longitude: longitude as number }, signal),
+  });
+}
+
+export function useWeatherForecast(latitude?: number, longitude?: number, days = 5) {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "weather", "forecast", latitude, longitude, days],
+    enabled: hasLocation(latitude, longitude),
+    queryFn: ({ signal }) =>
+      getWeatherForecast({ latitude: latitude as number, longitude: longitude as number, days }, signal),
+  });
+}
+
+/* --------------------------------------------------------------- Contracts */
+
+export function useContractStatus() {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "contracts", "status"],
+    queryFn: ({ signal }) => getContractStatus(signal),
+  });
+}
+
+export function useContractEvents(filter: { type?: ContractEventType; limit?: number } = {}) {
+  return useQuery({
+    ...API_QUERY_OPTIONS,
+    queryKey: ["api", "contracts", "events", filter],
+    queryFn: ({ signal }) => getContractEvents(filter, signal),
+  });
+}
@@ -0,0 +1,38 @@
+import * as React from "react";
+
+import { switchNetwork as requestSwitch } from "@/lib/celo";
+import { describeContractError } from "@/lib/contract-errors";
+import { DEFAULT_CHAIN_ID, isSupportedChain, NETWORKS } from "@/lib/networks";
+import { useWallet } from "@/hooks/use-wallet";
+
+export function useChainGuard() {
+  const chainId = useWallet((state) => state.chainId);
+  const status = useWallet((state) => state.status);
+  const [isSwitching, setIsSwitching] = React.useState(false);
+  const [error, setError] = React.useState<string>("");
+
+  // The wallet store follows chainChanged, so a successful switch updates chainId.
+  const switchNetwork = React.useCallback(async () => {
+    setIsSwitching(true);
+    setError("");
+    try {
+      await requestSwitch(DEFAULT_CHAIN_ID);
+    } catch (err) {
+      setError(describeContractError(err, "switch-network"));
+    } finally {
+      setIsSwitching(false);
+    }
+  }, []);
+
+  return {
+    chainId,
+    // Without a connected wallet there is nothing to guard; contract writes need one anyway.
+    isGuarding: status === "connected",
+    // An unknown chain is not a supported one.
+    isCorrectChain: isSupportedChain(chainId),
+    targetNetwork: NETWORKS[DEFAULT_CHAIN_ID],
+    isSwitching,
+    error,
+    switchNetwork,
+  };
+}
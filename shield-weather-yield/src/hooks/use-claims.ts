@@ -0,0 +1,23 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import { fetchClaimsPage } from "@/lib/claims";
+import { useWallet } from "@/hooks/use-wallet";
+
+/** Payout and premium history for the connected farmer, loaded page by page going back in time. */
+export function useClaims() {
+  const address = useWallet((state) => state.address);
+  const chainId = useWallet((state) => state.chainId);
+
+  const query = useInfiniteQuery({
+    queryKey: ["claims", chainId, address],
+    enabled: !!address,
+    initialPageParam: undefined as number | undefined,
+    queryFn: ({ pageParam }) => fetchClaimsPage(address as string, chainId, pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextToBlock ?? undefined,
+  });
+
+  return {
+    ...query,
+    claims: query.data?.pages.flatMap((page) => page.claims) ?? [],
+  };
+}
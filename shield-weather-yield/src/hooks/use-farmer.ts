@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getJsonRpcProvider } from "@/lib/celo";
+import { getFarmerRegistry } from "@/lib/contracts";
+import { useWallet } from "@/hooks/use-wallet";
+import { parseFarmer, type Farmer } from "@/types";
+
+/** The connected wallet's FarmerRegistry record. */
+export function useFarmer() {
+  const address = useWallet((state) => state.address);
+  const chainId = useWallet((state) => state.chainId);
+
+  return useQuery({
+    queryKey: ["farmer", chainId, address],
+    enabled: !!address,
+    queryFn: async (): Promise<Farmer> => {
+      const registry = getFarmerRegistry(getJsonRpcProvider(chainId), chainId);
+      const isRegistered = await registry.isFarmerRegistered(address as string);
+      if (!isRegistered) {
+        return parseFarmer({ address, isRegistered, latitude: 0, longitude: 0, cropType: "" });
+      }
+      const record = await registry.farmers(address as string);
+      // Coordinates are stored as decimal strings; parseFarmer rejects anything that is not a valid position.
+      return parseFarmer({
+        address,
+        isRegistered,
+        latitude: Number(record.latitude),
+        longitude: Number(record.longitude),
+        cropType: record.cropType,
+      });
+    },
+  });
+}
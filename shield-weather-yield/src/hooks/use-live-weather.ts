@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { weatherProvider } from "@/lib/weather-provider";
+
+// Both providers update roughly every 15 minutes; polling faster only burns quota.
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Current weather at a location, refreshed in the background; disabled until coordinates are known. */
+export function useLiveWeather(latitude: number | undefined, longitude: number | undefined) {
+  return useQuery({
+    // Rounded so small pin adjustments reuse the cached reading.
+    queryKey: ["liveWeather", weatherProvider.id, latitude?.toFixed(2), longitude?.toFixed(2)],
+    enabled: latitude != null && longitude != null,
+    staleTime: REFRESH_INTERVAL_MS / 2,
+    refetchInterval: REFRESH_INTERVAL_MS,
+    // The backend client already retries with backoff.
+    retry: weatherProvider.id === "backend" ? false : 2,
+    queryFn: ({ signal }) => weatherProvider.current(latitude as number, longitude as number, signal),
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatUnits } from "ethers";
+
+import { getJsonRpcProvider } from "@/lib/celo";
+import { CUSD_DECIMALS, getPremiumPool } from "@/lib/contracts";
+import { useWallet } from "@/hooks/use-wallet";
+
+/** Total premium (in cUSD) the connected farmer has paid into the PremiumPool. */
+export function usePremiumBalance() {
+  const address = useWallet((state) => state.address);
+  const chainId = useWallet((state) => state.chainId);
+
+  return useQuery({
+    queryKey: ["premiumBalance", chainId, address],
+    enabled: !!address,
+    queryFn: async () => {
+      const pool = getPremiumPool(getJsonRpcProvider(chainId), chainId);
+      const balance = await pool.farmerBalances(address as string);
+      return Number(formatUnits(balance, CUSD_DECIMALS));
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { useSearchParams } from "react-router-dom";
+
+const RETURN_TO_PARAM = "returnTo";
+
+// Only same-app paths; "//host" and absolute URLs would turn returnTo into an open redirect.
+const isSafePath = (path: string | null): path is string => !!path && path.startsWith("/") && !path.startsWith("//");
+
+/** `path` with a returnTo query parameter, or `path` unchanged when there is nothing to return to. */
+export function withReturnTo(path: string, returnTo: string | null | undefined): string {
+  return isSafePath(returnTo ?? null) ? `${path}?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo as string)}` : path;
+}
+
+/** The page a guard redirected away from, if the current URL carries a safe one. */
+export function useReturnTo(): string | null {
+  const [searchParams] = useSearchParams();
+  const returnTo = searchParams.get(RETURN_TO_PARAM);
+  return isSafePath(returnTo) ? returnTo : null;
+}
@@ -0,0 +1,67 @@
+import { QueryClient } from "@tanstack/react-query";
+import { Wallet } from "ethers";
+import type { JsonRpcSigner } from "ethers";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { getCurrentFarmer } from "@/lib/api";
+import { getAuthToken } from "@/lib/api-client";
+import { resetMockApi } from "@/lib/mock-api";
+import { useSession } from "@/hooks/use-session";
+import { useWallet } from "@/hooks/use-wallet";
+
+// Fixed test keys; never funded.
+const wallet = new Wallet(`0x${"11".repeat(32)}`);
+const otherWallet = new Wallet(`0x${"22".repeat(32)}`);
+
+describe("useSession", () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    resetMockApi();
+    useWallet.setState({
+      address: wallet.address,
+      chainId: 44787,
+      status: "connected",
+      // signMessage is all sign-in needs from the signer.
+      signer: wallet as unknown as JsonRpcSigner,
+    });
+    stop = useSession.getState().init(new QueryClient());
+  });
+
+  afterEach(() => {
+    useSession.getState().signOut();
+    stop();
+  });
+
+  it("signs in with the connected wallet", async () => {
+    await useSession.getState().signIn();
+
+    const session = useSession.getState();
+    expect(session.status).toBe("signed-in");
+    expect(session.address).toBe(useWallet.getState().address?.toLowerCase());
+    expect(session.farmer?.name).toBe("Demo Farmer");
+    expect(getAuthToken()).toBeTruthy();
+  });
+
+  it("clears the token and ends the session when the server answers 401", async () => {
+    await useSession.getState().signIn();
+    // The mock forgets the farmer, so /auth/me no longer accepts the token.
+    resetMockApi();
+
+    await expect(getCurrentFarmer()).rejects.toMatchObject({ status: 401 });
+
+    expect(getAuthToken()).toBeNull();
+    expect(useSession.getState().status).toBe("signed-out");
+    expect(localStorage.getItem("weathershield.session")).toBeNull();
+  });
+
+  it("stays signed out when the wallet signs a message the server rejects", async () => {
+    // A signer for a different key produces a signature that doesn't match the address.
+    useWallet.setState({ signer: otherWallet as unknown as JsonRpcSigner });
+
+    await useSession.getState().signIn();
+
+    expect(useSession.getState().status).toBe("error");
+    expect(getAuthToken()).toBeNull();
+  });
+});
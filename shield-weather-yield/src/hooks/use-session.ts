@@ -0,0 +1,201 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { create } from "zustand";
+
+import { toast } from "@/components/ui/sonner";
+import {
+  getCurrentFarmer,
+  getNonce,
+  login,
+  logout,
+  signUp,
+  verifySignature,
+  type FarmerProfile,
+  type SignUpRequest,
+  type WalletSignature,
+} from "@/lib/api";
+import { ApiError, getAuthToken, onUnauthorized } from "@/lib/api-client";
+import { describeContractError } from "@/lib/contract-errors";
+import { createSiweMessage, formatSiweMessage, getTokenExpiry } from "@/lib/siwe";
+import { useWallet } from "@/hooks/use-wallet";
+
+// Which wallet the stored JWT belongs to, and when it expires.
+const SESSION_KEY = "weathershield.session";
+
+// Offer to renew the session this long before the JWT expires.
+const RENEW_WINDOW_MS = 24 * 60 * 60 * 1000;
+// The backend's default JWT_EXPIRES_IN, for tokens without an exp claim.
+const DEFAULT_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// setTimeout overflows past ~24.8 days; longer waits are re-armed.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export type SessionStatus = "signed-out" | "signing-in" | "signed-in" | "error";
+
+interface StoredSession {
+  address: string;
+  expiresAt: number;
+}
+
+interface SessionState {
+  status: SessionStatus;
+  // Lowercase address the session was signed for.
+  address: string | null;
+  expiresAt: number | null;
+  farmer: FarmerProfile | null;
+  error: string;
+  /** Signs an EIP-4361 message with the connected wallet and exchanges it for a JWT. */
+  signIn: () => Promise<void>;
+  /** Like signIn, but creates the backend profile first. Throws when it fails. */
+  signUp: (profile: Omit<SignUpRequest, keyof WalletSignature>) => Promise<void>;
+  signOut: () => void;
+  init: (queryClient: QueryClient) => () => void;
+}
+
+function loadSession(): StoredSession | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null") as StoredSession | null;
+    return stored && getAuthToken() && stored.expiresAt > Date.now() ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: StoredSession | null) {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+function describeSignInError(err: unknown): string {
+  if (err instanceof ApiError) {
+    return err.status === 404 ? "No WeatherShield profile is linked to this wallet yet." : err.message;
+  }
+  return describeContractError(err, "sign-in");
+}
+
+function notifyExpired() {
+  toast.info("Your session expired", { description: "Sign in again to sync your farm profile." });
+}
+
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+let activeQueryClient: QueryClient | null = null;
+
+export const useSession = create<SessionState>((set, get) => {
+  const end = () => {
+    clearTimeout(expiryTimer);
+    saveSession(null);
+    set({ status: "signed-out", address: null, expiresAt: null, farmer: null, error: "" });
+    // Everything under ["api"] may have been fetched with the old token.
+    activeQueryClient?.removeQueries({ queryKey: ["api"] });
+  };
+
+  // Wakes up once to offer a renewal, then again to end the session at expiry.
+  const schedule = (expiresAt: number) => {
+    clearTimeout(expiryTimer);
+    const renewAt = expiresAt - RENEW_WINDOW_MS;
+    const wakeAt = Date.now() < renewAt ? renewAt : expiresAt;
+    expiryTimer = setTimeout(() => {
+      if (get().expiresAt !== expiresAt) return;
+      if (Date.now() >= expiresAt) {
+        end();
+        notifyExpired();
+      } else if (Date.now() >= renewAt) {
+        toast.info("Your session expires soon", {
+          description: "Sign a new message to stay signed in.",
+          action: { label: "Renew", onClick: () => void get().signIn() },
+        });
+        schedule(expiresAt);
+      } else {
+        schedule(expiresAt);
+      }
+    }, Math.min(Math.max(wakeAt - Date.now(), 0), MAX_TIMER_MS));
+  };
+
+  // Signs a fresh message and trades it for a JWT through `exchange` (login or sign-up).
+  const authenticate = async (exchange: (credentials: WalletSignature) => Promise<FarmerProfile>) => {
+    const { signer, address, chainId } = useWallet.getState();
+    if (!signer || !address || chainId == null) {
+      const error = "Connect your wallet before signing in.";
+      set({ status: "error", error });
+      throw new Error(error);
+    }
+    set({ status: "signing-in", error: "" });
+    try {
+      const nonce = await getNonce(address);
+      const message = formatSiweMessage(createSiweMessage(address, chainId, nonce));
+      const signature = await signer.signMessage(message);
+      const credentials = { walletAddress: address, message, signature };
+      if (!(await verifySignature(credentials))) {
+        throw new ApiError("The server couldn't verify your wallet signature.", 400);
+      }
+      const farmer = await exchange(credentials);
+      const expiresAt = getTokenExpiry(getAuthToken() ?? "")?.getTime() ?? Date.now() + DEFAULT_TOKEN_TTL_MS;
+      const session = { address: address.toLowerCase(), expiresAt };
+      saveSession(session);
+      set({ ...session, status: "signed-in", farmer, error: "" });
+      schedule(expiresAt);
+    } catch (err) {
+      // A failed renewal leaves the current session in place until it expires.
+      set({ status: get().address ? "signed-in" : "error", error: describeSignInError(err) });
+      throw err;
+    }
+  };
+
+  return {
+    status: "signed-out",
+    address: null,
+    expiresAt: null,
+    farmer: null,
+    error: "",
+
+    signIn: async () => {
+      try {
+        await authenticate(login);
+      } catch {
+        toast.error("Sign-in failed", { description: get().error });
+      }
+    },
+
+    signUp: (profile) => authenticate((credentials) => signUp({ ...credentials, ...profile })),
+
+    signOut: () => {
+      logout();
+      end();
+    },
+
+    init: (queryClient) => {
+      activeQueryClient = queryClient;
+
+      const stored = loadSession();
+      if (stored) {
+        set({ ...stored, status: "signed-in" });
+        schedule(stored.expiresAt);
+        // Confirms the token is still accepted; a 401 ends the session through onUnauthorized,
+        // and other failures keep the session until a later request succeeds or is rejected.
+        getCurrentFarmer()
+          .then((farmer) => set({ farmer }))
+          .catch(() => undefined);
+      } else if (getAuthToken()) {
+        logout();
+      }
+
+      const stopUnauthorized = onUnauthorized(() => {
+        if (get().status !== "signed-in") return;
+        end();
+        notifyExpired();
+      });
+
+      // A JWT belongs to one wallet; drop it when the farmer switches accounts or disconnects.
+      const stopWallet = useWallet.subscribe((wallet, previous) => {
+        const { address, status } = get();
+        if (!address || status === "signing-in" || wallet.address === previous.address) return;
+        if (wallet.address?.toLowerCase() !== address) get().signOut();
+      });
+
+      return () => {
+        clearTimeout(expiryTimer);
+        stopUnauthorized();
+        stopWallet();
+        activeQueryClient = null;
+      };
+    },
+  };
+});
@@ -0,0 +1,139 @@
+import type { QueryClient } from "@tanstack/react-query";
+import type { TransactionResponse } from "ethers";
+import { create } from "zustand";
+
+import { toast } from "@/components/ui/sonner";
+import { getExplorerTxUrl } from "@/lib/networks";
+import {
+  loadTransactions,
+  MAX_TRANSACTIONS,
+  pollReceipt,
+  saveTransactions,
+  TRANSACTION_LABELS,
+  TransactionRevertedError,
+  type TrackedTransaction,
+  type TransactionKind,
+} from "@/lib/transactions";
+
+// Queries whose on-chain source a confirmed or reverted write may have changed.
+const AFFECTED_QUERIES: Record<TransactionKind, string[]> = {
+  register: ["farmer"],
+  updateFarmer: ["farmer"],
+  approve: ["cusdAccount"],
+  payPremium: ["cusdAccount", "premiumBalance", "claims"],
+};
+
+interface TransactionsState {
+  transactions: TrackedTransaction[];
+  /**
+   * Records a submitted write and waits for its receipt. Resolves once it is
+   * confirmed and throws TransactionRevertedError when it reverts.
+   */
+  track: (tx: TransactionResponse, kind: TransactionKind) => Promise<TrackedTransaction>;
+  clearSettled: (account: string) => void;
+  init: (queryClient: QueryClient) => () => void;
+}
+
+// One receipt poll per hash, shared by track() and the reload resume in init().
+const polls = new Map<string, { controller: AbortController; settled: Promise<TrackedTransaction | null> }>();
+let activeQueryClient: QueryClient | null = null;
+
+function explorerAction(tx: TrackedTransaction) {
+  const url = getExplorerTxUrl(tx.hash, tx.chainId);
+  return url ? { label: "View", onClick: () => window.open(url, "_blank", "noopener,noreferrer") } : undefined;
+}
+
+function notify(tx: TrackedTransaction) {
+  const options = { id: tx.hash, action: explorerAction(tx) };
+  if (tx.status === "pending") {
+    toast.loading(tx.label, { ...options, description: "Waiting for confirmation on Celo..." });
+  } else if (tx.status === "confirmed") {
+    toast.success(tx.label, { ...options, description: "Transaction confirmed." });
+  } else if (tx.status === "reverted") {
+    toast.error(tx.label, { ...options, description: "Transaction reverted on-chain." });
+  } else {
+    toast.error(tx.label, { ...options, description: "Transaction was not mined. It may have been dropped or replaced." });
+  }
+}
+
+export const useTransactions = create<TransactionsState>((set, get) => {
+  const update = (tx: TrackedTransaction) => {
+    const transactions = [tx, ...get().transactions.filter((entry) => entry.hash !== tx.hash)]
+      .sort((a, b) => b.submittedAt - a.submittedAt)
+      .slice(0, MAX_TRANSACTIONS);
+    saveTransactions(transactions);
+    set({ transactions });
+  };
+
+  const watch = (tx: TrackedTransaction) => {
+    const existing = polls.get(tx.hash);
+    if (existing) return existing.settled;
+
+    notify(tx);
+    const controller = new AbortController();
+    const settled = pollReceipt(tx.hash, tx.chainId, tx.submittedAt, controller.signal).then(async (receipt) => {
+      // A re-init may already have started a newer poll for this hash.
+      if (polls.get(tx.hash)?.controller === controller) polls.delete(tx.hash);
+      if (!receipt) return null;
+      const result: TrackedTransaction = { ...tx, ...receipt, settledAt: Date.now() };
+      update(result);
+      notify(result);
+      await Promise.all(
+        AFFECTED_QUERIES[tx.kind].map((key) => activeQueryClient?.invalidateQueries({ queryKey: [key] }))
+      );
+      return result;
+    });
+    polls.set(tx.hash, { controller, settled });
+    return settled;
+  };
+
+  return {
+    transactions: loadTransactions(),
+
+    track: async (response, kind) => {
+      const tx: TrackedTransaction = {
+        hash: response.hash,
+        chainId: Number(response.chainId),
+        account: response.from.toLowerCase(),
+        kind,
+        label: TRANSACTION_LABELS[kind],
+        status: "pending",
+        submittedAt: Date.now(),
+      };
+      update(tx);
+      const result = await watch(tx);
+      if (!result) {
+        throw new Error("Stopped tracking the transaction before it was mined.");
+      }
+      if (result.status === "reverted") {
+        throw new TransactionRevertedError(tx.hash, tx.label);
+      }
+      if (result.status === "dropped") {
+        throw new Error(`${tx.label} was not mined. It may have been dropped or replaced in your wallet.`);
+      }
+      return result;
+    },
+
+    clearSettled: (account) => {
+      const transactions = get().transactions.filter(
+        (tx) => tx.status === "pending" || tx.account !== account.toLowerCase()
+      );
+      saveTransactions(transactions);
+      set({ transactions });
+    },
+
+    init: (queryClient) => {
+      activeQueryClient = queryClient;
+      // Pick up receipts for writes that were still pending when the page was last closed.
+      get()
+        .transactions.filter((tx) => tx.status === "pending")
+        .forEach((tx) => void watch(tx));
+
+      return () => {
+        polls.forEach(({ controller }) => controller.abort());
+        polls.clear();
+        activeQueryClient = null;
+      };
+    },
+  };
+});
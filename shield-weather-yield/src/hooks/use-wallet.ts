@@ -0,0 +1,132 @@
+import type { JsonRpcSigner } from "ethers";
+import { create } from "zustand";
+
+import {
+  getBrowserProvider,
+  getWalletChainId,
+  requestAccount,
+  switchNetwork,
+  watchWallet,
+  WalletError,
+  type WalletErrorCode,
+} from "@/lib/celo";
+import { describeContractError } from "@/lib/contract-errors";
+import { isSupportedChain } from "@/lib/networks";
+
+// Set while the farmer is connected so a reload can silently reconnect.
+const RECONNECT_KEY = "weathershield.wallet.reconnect";
+
+export type WalletStatus = "disconnected" | "connecting" | "connected" | "error";
+
+interface WalletState {
+  address: string | null;
+  chainId: number | null;
+  signer: JsonRpcSigner | null;
+  status: WalletStatus;
+  error: string;
+  errorCode: WalletErrorCode | null;
+  // True until init() has tried to restore the previous session; guards wait on it.
+  isRestoring: boolean;
+  connect: () => Promise<void>;
+  reconnect: () => Promise<void>;
+  disconnect: () => void;
+  clearError: () => void;
+  init: () => () => void;
+}
+
+async function loadSession(address: string) {
+  const provider = getBrowserProvider();
+  if (!provider) {
+    throw new WalletError("no-extension", "No wallet extension detected. Install MetaMask or the Celo Extension Wallet.");
+  }
+  const [signer, chainId] = await Promise.all([provider.getSigner(address), getWalletChainId()]);
+  return { address, signer, chainId };
+}
+
+function errorState(err: unknown) {
+  return {
+    status: "error" as const,
+    error: describeContractError(err, "connect"),
+    errorCode: err instanceof WalletError ? err.code : ("unknown" as const),
+  };
+}
+
+export const useWallet = create<WalletState>((set, get) => ({
+  address: null,
+  chainId: null,
+  signer: null,
+  status: "disconnected",
+  error: "",
+  errorCode: null,
+  isRestoring: true,
+
+  connect: async () => {
+    set({ status: "connecting", error: "", errorCode: null });
+    try {
+      const account = await requestAccount();
+      if (!isSupportedChain(await getWalletChainId())) {
+        // A declined switch is not fatal: NetworkGuard keeps contract actions blocked.
+        await switchNetwork().catch(() => undefined);
+      }
+      set({ ...(await loadSession(account)), status: "connected" });
+      localStorage.setItem(RECONNECT_KEY, "1");
+    } catch (err) {
+      set(errorState(err));
+    }
+  },
+
+  reconnect: async () => {
+    const provider = getBrowserProvider();
+    if (!provider || !localStorage.getItem(RECONNECT_KEY)) return;
+    // eth_accounts never prompts; it is empty when the site lost permission or the wallet is locked.
+    const accounts: string[] = await provider.send("eth_accounts", []).catch(() => []);
+    if (accounts.length === 0) {
+      localStorage.removeItem(RECONNECT_KEY);
+      return;
+    }
+    set({ ...(await loadSession(accounts[0])), status: "connected" });
+  },
+
+  disconnect: () => {
+    localStorage.removeItem(RECONNECT_KEY);
+    set({ address: null, chainId: null, signer: null, status: "disconnected", error: "", errorCode: null });
+  },
+
+  clearError: () => set({ status: get().address ? "connected" : "disconnected", error: "", errorCode: null }),
+
+  init: () => {
+    get()
+      .reconnect()
+      .catch((err) => set(errorState(err)))
+      .finally(() => set({ isRestoring: false }));
+
+    // EIP-1193 listeners ignore returned promises, so these handlers must not reject.
+    return watchWallet({
+      onAccountsChanged: async (accounts) => {
+        if (get().status !== "connected") return;
+        if (accounts.length === 0) {
+          get().disconnect();
+          return;
+        }
+        try {
+          set(await loadSession(accounts[0]));
+        } catch (err) {
+          set(errorState(err));
+        }
+      },
+      onChainChanged: async (chainId) => {
+        // chainId is only tracked for a connected wallet; connecting reads it afresh.
+        const { address } = get();
+        if (!address) return;
+        set({ chainId });
+        try {
+          // Signers are bound to a network; rebuild it for the new chain.
+          set(await loadSession(address));
+        } catch (err) {
+          set(errorState(err));
+        }
+      },
+      onDisconnect: () => get().disconnect(),
+    });
+  },
+}));
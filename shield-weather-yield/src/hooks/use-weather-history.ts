@@ -0,0 +1,35 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import { isoDate } from "@/lib/weather-history";
+import { weatherProvider } from "@/lib/weather-provider";
+
+/** Daily weather for the last `days` days from the configured weather provider; disabled until coordinates are known. */
+export function useWeatherHistory(latitude: number | undefined, longitude: number | undefined, days = 90) {
+  return useQuery({
+    // Rounded so small pin adjustments reuse the cached history.
+    queryKey: ["weatherHistory", weatherProvider.id, latitude?.toFixed(2), longitude?.toFixed(2), days],
+    enabled: latitude != null && longitude != null,
+    staleTime: 60 * 60 * 1000,
+    // The backend client already retries with backoff.
+    retry: weatherProvider.id === "backend" ? false : 2,
+    queryFn: ({ signal }) => {
+      const end = new Date();
+      const start = new Date(end.getTime() - (days - 1) * 86_400_000);
+      return weatherProvider.history(latitude as number, longitude as number, start, end, signal);
+    },
+  });
+}
+
+/** Daily weather between two dates from the configured weather provider; disabled until coordinates are known. */
+export function useWeatherRange(latitude: number | undefined, longitude: number | undefined, start: Date, end: Date) {
+  return useQuery({
+    queryKey: ["weatherRange", weatherProvider.id, latitude?.toFixed(2), longitude?.toFixed(2), isoDate(start), isoDate(end)],
+    enabled: latitude != null && longitude != null,
+    staleTime: 60 * 60 * 1000,
+    // Keep the current chart on screen while a new range loads.
+    placeholderData: keepPreviousData,
+    // The backend client already retries with backoff.
+    retry: weatherProvider.id === "backend" ? false : 2,
+    queryFn: ({ signal }) => weatherProvider.history(latitude as number, longitude as number, start, end, signal),
+  });
+}
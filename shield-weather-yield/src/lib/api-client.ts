@@ -0,0 +1,144 @@
+import axios, { type AxiosAdapter, type AxiosRequestConfig } from "axios";
+
+// Base URL of the WeatherShield backend; routes below are mounted under /api.
+export const API_URL = (import.meta.env.VITE_API_URL ?? "http://localhost:5000").replace(/\/$/, "");
+
+// JWT issued by /api/auth/login and /api/auth/register.
+const TOKEN_KEY = "weathershield.api.token";
+
+// GETs are retried on network errors, 429 and 5xx; writes are never replayed.
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+/** The backend's response envelope. */
+interface ApiEnvelope<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: ApiFieldError[];
+}
+
+/** One express-validator failure from a 400 response. */
+export interface ApiFieldError {
+  path?: string;
+  param?: string;
+  msg: string;
+}
+
+export class ApiError extends Error {
+  // HTTP status, or null when the request never got a response.
+  status: number | null;
+  fieldErrors: ApiFieldError[];
+
+  constructor(message: string, status: number | null, fieldErrors: ApiFieldError[] = []) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// VITE_API_MOCK=true answers the auth routes in the browser instead of calling the backend.
+// Vite inlines the flag, so builds without it leave the mock out of the bundle.
+const mockAdapter: AxiosAdapter | undefined =
+  import.meta.env.VITE_API_MOCK === "true"
+    ? async (config) => (await import("./mock-api")).mockApiAdapter(config)
+    : undefined;
+
+const http = axios.create({
+  baseURL: `${API_URL}/api`,
+  timeout: 15000,
+  adapter: mockAdapter,
+});
+
+let authToken: string | null = localStorage.getItem(TOKEN_KEY);
+const tokenListeners = new Set<() => void>();
+const unauthorizedListeners = new Set<() => void>();
+
+export function getAuthToken(): string | null {
+  return authToken;
+}
+
+/** Stores (or with null, forgets) the JWT sent with every request. */
+export function setAuthToken(token: string | null): void {
+  authToken = token;
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+  tokenListeners.forEach((listener) => listener());
+}
+
+/** Subscribes to token changes (sign-in, sign-out, expiry); returns an unsubscribe function. */
+export function onAuthTokenChange(listener: () => void): () => void {
+  tokenListeners.add(listener);
+  return () => tokenListeners.delete(listener);
+}
+
+/** Called when the backend rejects the stored token; returns an unsubscribe function. */
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => unauthorizedListeners.delete(listener);
+}
+
+http.interceptors.request.use((config) => {
+  if (authToken) config.headers.set("Authorization", `Bearer ${authToken}`);
+  return config;
+});
+
+function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  if (axios.isAxiosError<ApiEnvelope<unknown>>(err)) {
+    const status = err.response?.status ?? null;
+    const body = err.response?.data;
+    const message =
+      body?.message ??
+      (status === null ? "Couldn't reach the WeatherShield server. Check your connection." : `Request failed (${status}).`);
+    return new ApiError(message, status, body?.errors ?? []);
+  }
+  return new ApiError(err instanceof Error ? err.message : "Request failed.", null);
+}
+
+function isRetryable(error: ApiError): boolean {
+  return error.status === null || error.status === 429 || error.status >= 500;
+}
+
+function backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+  // Full jitter keeps many tabs from retrying in lockstep after an outage.
+  const delay = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return new Promise((resolve) => {
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, delay);
+    signal?.addEventListener("abort", wake);
+  });
+}
+
+/**
+ * Sends a request and unwraps the envelope's `data`. Throws ApiError for
+ * HTTP and network failures, and lets axios' CanceledError through when
+ * `config.signal` aborts.
+ */
+export async function apiRequest<T>(config: AxiosRequestConfig): Promise<T> {
+  const method = (config.method ?? "get").toLowerCase();
+  const retries = method === "get" ? MAX_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { data: body } = await http.request<ApiEnvelope<T>>(config);
+      if (!body.success) throw new ApiError(body.message ?? "Request failed.", 200, body.errors ?? []);
+      return body.data as T;
+    } catch (err) {
+      if (axios.isCancel(err)) throw err;
+      const error = toApiError(err);
+      if (error.status === 401 && authToken) {
+        setAuthToken(null);
+        unauthorizedListeners.forEach((listener) => listener());
+      }
+      if (attempt >= retries || !isRetryable(error) || config.signal?.aborted) throw error;
+      await backoff(attempt, config.signal as AbortSignal | undefined);
+    }
+  }
+}
@@ -0,0 +1,519 @@
+import { apiRequest, setAuthToken } from "./api-client";
+import { getExplorerTxUrl } from "./networks";
+import type { WeatherThresholds } from "./thresholds";
+import {
+  parseClaim,
+  parseWeatherObservation,
+  type AlertSeverity,
+  type Claim,
+  type ClaimStatus,
+  type FarmSizeUnit,
+  type WeatherObservation,
+} from "@/types";
+
+// Typed wrappers for every backend route. Each function takes an optional
+// AbortSignal last so react-query (or a component) can cancel it.
+
+/* -------------------------------------------------------------------- Auth */
+
+export interface FarmerLocation {
+  latitude: number;
+  longitude: number;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+}
+
+export interface FarmDetails {
+  cropType: string;
+  farmSize: number;
+  farmSizeUnit: FarmSizeUnit;
+  plantingDate: string;
+  expectedHarvestDate: string;
+}
+
+export interface InsuranceDetails {
+  isRegistered: boolean;
+  registrationDate?: string;
+  premiumAmount?: number;
+  coverageAmount?: number;
+  policyStatus: "active" | "inactive" | "expired" | "suspended";
+  lastPremiumPayment?: string;
+  nextPremiumDue?: string;
+}
+
+/** The backend's off-chain farmer record. */
+export interface FarmerProfile {
+  id: string;
+  walletAddress: string;
+  name: string;
+  email: string;
+  phone?: string;
+  location: FarmerLocation;
+  farmDetails: FarmDetails;
+  insuranceDetails: InsuranceDetails;
+  weatherThresholds?: WeatherThresholds;
+  isActive?: boolean;
+  lastLogin?: string;
+  createdAt?: string;
+  // Only on GET /farmers/profile.
+  blockchainData?: {
+    isRegistered: boolean;
+    premiumBalance: number;
+    cusdBalance: number;
+  };
+}
+
+/** A message signed by the wallet; the backend recovers the signer to authenticate it. */
+export interface WalletSignature {
+  walletAddress: string;
+  message: string;
+  signature: string;
+}
+
+export interface SignUpRequest extends WalletSignature {
+  name: string;
+  email: string;
+  phone: string;
+  location: FarmerLocation;
+  farmDetails: FarmDetails;
+}
+
+interface AuthResponse {
+  farmer: FarmerProfile;
+  token: string;
+}
+
+/** A single-use nonce for the wallet's next sign-in message; the server rejects messages without one. */
+export async function getNonce(walletAddress: string, signal?: AbortSignal): Promise<string> {
+  const { nonce } = await apiRequest<{ nonce: string }>({ url: "/auth/nonce", params: { walletAddress }, signal });
+  return nonce;
+}
+
+/** Signs in with a wallet signature and stores the returned JWT. */
+export async function login(credentials: WalletSignature, signal?: AbortSignal): Promise<FarmerProfile> {
+  const { farmer, token } = await apiRequest<AuthResponse>({ method: "post", url: "/auth/login", data: credentials, signal });
+  setAuthToken(token);
+  return farmer;
+}
+
+/** Creates the off-chain profile and stores the returned JWT. */
+export async function signUp(request: SignUpRequest, signal?: AbortSignal): Promise<FarmerProfile> {
+  const { farmer, token } = await apiRequest<AuthResponse>({ method: "post", url: "/auth/register", data: request, signal });
+  setAuthToken(token);
+  return farmer;
+}
+
+export function logout(): void {
+  setAuthToken(null);
+}
+
+export async function getCurrentFarmer(signal?: AbortSignal): Promise<FarmerProfile> {
+  const { farmer } = await apiRequest<{ farmer: FarmerProfile }>({ url: "/auth/me", signal });
+  return farmer;
+}
+
+export async function verifySignature(credentials: WalletSignature, signal?: AbortSignal): Promise<boolean> {
+  const { isValid } = await apiRequest<{ isValid: boolean }>({
+    method: "post",
+    url: "/auth/verify-signature",
+    data: credentials,
+    signal,
+  });
+  return isValid;
+}
+
+/* ----------------------------------------------------------------- Farmers */
+
+export interface ProfileUpdate {
+  name?: string;
+  phone?: string;
+  location?: Partial<FarmerLocation>;
+  farmDetails?: Partial<FarmDetails>;
+}
+
+export interface FarmerStats {
+  balances: { premium: number; cusd: number };
+  claims: { totalAmount: number; totalClaims: number; averagePayout: number };
+  farmDetails: { size: number; cropType: string; plantingDate: string; expectedHarvestDate: string };
+  insurance: InsuranceDetails;
+}
+
+export interface NearbyFarmer {
+  id: string;
+  name: string;
+  location: FarmerLocation;
+  farmDetails: FarmDetails;
+  insuranceDetails: InsuranceDetails;
+  isActive: boolean;
+}
+
+export async function getProfile(signal?: AbortSignal): Promise<FarmerProfile> {
+  const { farmer } = await apiRequest<{ farmer: FarmerProfile }>({ url: "/farmers/profile", signal });
+  return farmer;
+}
+
+export async function updateProfile(update: ProfileUpdate, signal?: AbortSignal): Promise<FarmerProfile> {
+  const { farmer } = await apiRequest<{ farmer: FarmerProfile }>({
+    method: "put",
+    url: "/farmers/profile",
+    data: update,
+    signal,
+  });
+  return farmer;
+}
+
+export async function updateWeatherThresholds(
+  thresholds: WeatherThresholds,
+  signal?: AbortSignal
+): Promise<WeatherThresholds> {
+  const { weatherThresholds } = await apiRequest<{ weatherThresholds: WeatherThresholds }>({
+    method: "put",
+    url: "/farmers/weather-thresholds",
+    data: thresholds,
+    signal,
+  });
+  return weatherThresholds;
+}
+
+export async function registerInsurance(
+  request: { premiumAmount: number; coverageAmount: number },
+  signal?: AbortSignal
+): Promise<InsuranceDetails> {
+  const { insuranceDetails } = await apiRequest<{ insuranceDetails: InsuranceDetails }>({
+    method: "post",
+    url: "/farmers/register-insurance",
+    data: request,
+    signal,
+  });
+  return insuranceDetails;
+}
+
+export function getFarmerStats(signal?: AbortSignal): Promise<FarmerStats> {
+  return apiRequest<FarmerStats>({ url: "/farmers/stats", signal });
+}
+
+export async function getNearbyFarmers(radiusKm?: number, signal?: AbortSignal): Promise<NearbyFarmer[]> {
+  const { farmers } = await apiRequest<{ farmers: NearbyFarmer[] }>({
+    url: "/farmers/nearby",
+    params: { radius: radiusKm },
+    signal,
+  });
+  return farmers;
+}
+
+/* ------------------------------------------------------------------ Claims */
+
+export type EvidenceType = "weather_data" | "satellite_image" | "field_photo" | "document";
+
+export interface ClaimEvidence {
+  type: EvidenceType;
+  url: string;
+  description?: string;
+  uploadedAt?: string;
+}
+
+interface BackendClaim {
+  id: string;
+  claimId: string;
+  status: ClaimStatus;
+  payoutDetails: { amount: number; currency: string };
+  netPayout: number;
+  triggerReason: string;
+  evidence: ClaimEvidence[];
+  reviewNotes?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  paidAt?: string;
+  createdAt: string;
+}
+
+/** A backend claim with its evidence, as returned by GET /claims/:id. */
+export interface ClaimDetail {
+  claim: Claim;
+  evidence: ClaimEvidence[];
+  netPayout: number;
+}
+
+export interface ClaimsPageResponse {
+  claims: Claim[];
+  pagination: { currentPage: number; totalPages: number; totalClaims: number; hasNext: boolean; hasPrev: boolean };
+}
+
+export interface ClaimStats {
+  totalPayouts: { totalAmount: number; totalClaims: number; averagePayout: number };
+  claimsByStatus: Partial<Record<ClaimStatus, { count: number; totalAmount: number }>>;
+  recentClaims: number;
+  averagePayout: number;
+}
+
+export interface ClaimTimelineEntry {
+  _id: { year: number; month: number; status: ClaimStatus };
+  count: number;
+  totalAmount: number;
+}
+
+function fromBackendClaim(claim: BackendClaim, chainId?: number | null): Claim {
+  return parseClaim({
+    id: claim.id,
+    claimId: claim.claimId,
+    kind: "payout",
+    status: claim.status,
+    amount: claim.payoutDetails.amount,
+    triggerReason: claim.triggerReason,
+    createdAt: claim.createdAt,
+    paidAt: claim.paidAt,
+    txHash: claim.transactionHash,
+    blockNumber: claim.blockNumber,
+    reviewNotes: claim.reviewNotes,
+    explorerUrl: claim.transactionHash ? getExplorerTxUrl(claim.transactionHash, chainId) : null,
+  });
+}
+
+export async function getClaims(
+  filter: { status?: ClaimStatus; page?: number; limit?: number; chainId?: number | null } = {},
+  signal?: AbortSignal
+): Promise<ClaimsPageResponse> {
+  const { chainId, ...params } = filter;
+  const { claims, pagination } = await apiRequest<{ claims: BackendClaim[]; pagination: ClaimsPageResponse["pagination"] }>({
+    url: "/claims",
+    params,
+    signal,
+  });
+  return { claims: claims.map((claim) => fromBackendClaim(claim, chainId)), pagination };
+}
+
+export async function getClaim(id: string, chainId?: number | null, signal?: AbortSignal): Promise<ClaimDetail> {
+  const { claim } = await apiRequest<{ claim: BackendClaim }>({ url: `/claims/${encodeURIComponent(id)}`, signal });
+  return { claim: fromBackendClaim(claim, chainId), evidence: claim.evidence, netPayout: claim.netPayout };
+}
+
+export async function addClaimEvidence(
+  id: string,
+  evidence: Omit<ClaimEvidence, "uploadedAt">,
+  signal?: AbortSignal
+): Promise<ClaimEvidence[]> {
+  const { evidence: all } = await apiRequest<{ evidence: ClaimEvidence[] }>({
+    method: "post",
+    url: `/claims/${encodeURIComponent(id)}/evidence`,
+    data: evidence,
+    signal,
+  });
+  return all;
+}
+
+export function getClaimStats(signal?: AbortSignal): Promise<ClaimStats> {
+  return apiRequest<ClaimStats>({ url: "/claims/stats/summary", signal });
+}
+
+export async function getClaimTimeline(months?: number, signal?: AbortSignal): Promise<ClaimTimelineEntry[]> {
+  const { timeline } = await apiRequest<{ timeline: ClaimTimelineEntry[] }>({
+    url: "/claims/stats/timeline",
+    params: { months },
+    signal,
+  });
+  return timeline;
+}
+
+/* ----------------------------------------------------------------- Weather */
+
+export interface WeatherQuery {
+  latitude: number;
+  longitude: number;
+  radiusKm?: number;
+}
+
+export interface WeatherRangeQuery extends WeatherQuery {
+  start: Date;
+  end: Date;
+}
+
+export interface WeatherStats {
+  avgTemperature: number;
+  minTemperature: number;
+  maxTemperature: number;
+  totalRainfall: number;
+  avgHumidity: number;
+  avgWindSpeed: number;
+  maxWindSpeed: number;
+  count: number;
+}
+
+export interface ForecastDay {
+  date: string;
+  temperatureMin: number;
+  temperatureMax: number;
+  humidity: number;
+  rainfall: number;
+  rainProbability: number;
+  windSpeed: number;
+  windDirection: number;
+  condition: string;
+  description: string;
+}
+
+export interface LocatedWeatherAlert {
+  event: string;
+  description: string;
+  severity: AlertSeverity;
+  start?: string;
+  end?: string;
+  timestamp: string;
+}
+
+interface BackendForecastDay {
+  date: string;
+  temperature: { min: number; max: number };
+  humidity: { value: number };
+  rainfall: { value: number; probability: number };
+  wind: { speed: number; direction: number };
+  weatherCondition: { main: string; description: string };
+}
+
+const locationParams = ({ latitude, longitude, radiusKm }: WeatherQuery) => ({
+  lat: latitude,
+  lon: longitude,
+  radius: radiusKm,
+});
+
+const rangeParams = (query: WeatherRangeQuery) => ({
+  ...locationParams(query),
+  startDate: query.start.toISOString(),
+  endDate: query.end.toISOString(),
+});
+
+export async function getCurrentWeather(query: WeatherQuery, signal?: AbortSignal): Promise<WeatherObservation> {
+  const { weather } = await apiRequest<{ weather: unknown }>({
+    url: "/weather/current",
+    params: locationParams(query),
+    signal,
+  });
+  return parseWeatherObservation(weather);
+}
+
+export async function getWeatherRecords(
+  query: WeatherRangeQuery & { limit?: number },
+  signal?: AbortSignal
+): Promise<WeatherObservation[]> {
+  const { weatherHistory } = await apiRequest<{ weatherHistory: unknown[] }>({
+    url: "/weather/history",
+    params: { ...rangeParams(query), limit: query.limit },
+    signal,
+  });
+  return weatherHistory.map(parseWeatherObservation);
+}
+
+export async function getWeatherStats(query: WeatherRangeQuery, signal?: AbortSignal): Promise<WeatherStats> {
+  const { statistics } = await apiRequest<{ statistics: WeatherStats }>({
+    url: "/weather/stats",
+    params: rangeParams(query),
+    signal,
+  });
+  return statistics;
+}
+
+export async function getWeatherAlerts(query: WeatherQuery, signal?: AbortSignal): Promise<LocatedWeatherAlert[]> {
+  const { alerts } = await apiRequest<{ alerts: LocatedWeatherAlert[] }>({
+    url: "/weather/alerts",
+    params: locationParams(query),
+    signal,
+  });
+  return alerts;
+}
+
+export async function getWeatherForecast(
+  query: WeatherQuery & { days?: number },
+  signal?: AbortSignal
+): Promise<ForecastDay[]> {
+  const { forecast } = await apiRequest<{ forecast: BackendForecastDay[] }>({
+    url: "/weather/forecast",
+    params: { lat: query.latitude, lon: query.longitude, days: query.days },
+    signal,
+  });
+  return forecast.map((day) => ({
+    date: day.date,
+    temperatureMin: day.temperature.min,
+    temperatureMax: day.temperature.max,
+    humidity: day.humidity.value,
+    rainfall: day.rainfall.value,
+    rainProbability: day.rainfall.probability,
+    windSpeed: day.wind.speed,
+    windDirection: day.wind.direction,
+    condition: day.weatherCondition.main,
+    description: day.weatherCondition.description,
+  }));
+}
+
+/* --------------------------------------------------------------- Contracts */
+
+export interface BackendNetwork {
+  name: string;
+  chainId: number;
+  rpcUrl?: string;
+}
+
+export interface ContractStatus {
+  status: "healthy" | "degraded";
+  contracts: { farmerRegistry: boolean; cusd: boolean };
+  addresses: Record<string, string>;
+  network: BackendNetwork;
+  timestamp: string;
+}
+
+export type ContractEventType = "FarmerRegistered" | "PremiumPaid" | "PayoutTriggered";
+
+export interface ContractEvent {
+  type: ContractEventType;
+  farmer: string;
+  amount?: string;
+  latitude?: string;
+  longitude?: string;
+  cropType?: string;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+export interface WalletBalances {
+  premium: number;
+  cusd: number;
+}
+
+export function getContractAddresses(
+  signal?: AbortSignal
+): Promise<{ addresses: Record<string, string>; network: BackendNetwork }> {
+  return apiRequest({ url: "/contracts/addresses", signal });
+}
+
+export function getContractStatus(signal?: AbortSignal): Promise<ContractStatus> {
+  return apiRequest<ContractStatus>({ url: "/contracts/status", signal });
+}
+
+export async function getContractEvents(
+  filter: { type?: ContractEventType; limit?: number } = {},
+  signal?: AbortSignal
+): Promise<ContractEvent[]> {
+  const { events } = await apiRequest<{ events: ContractEvent[] }>({ url: "/contracts/events", params: filter, signal });
+  return events;
+}
+
+export function getOnChainRegistration(
+  address: string,
+  signal?: AbortSignal
+): Promise<{ walletAddress: string; isRegistered: boolean }> {
+  return apiRequest({ url: `/contracts/farmer/${address}`, signal });
+}
+
+export function verifyContractInteraction(
+  walletAddress: string,
+  action: "register" | "premium" | "payout",
+  signal?: AbortSignal
+): Promise<{ walletAddress: string; action: string; result: unknown; timestamp: string }> {
+  return apiRequest({ method: "post", url: "/contracts/verify", data: { walletAddress, action }, signal });
+}
+
+export async function getWalletBalances(address: string, signal?: AbortSignal): Promise<WalletBalances> {
+  const { balances } = await apiRequest<{ balances: WalletBalances }>({ url: `/contracts/balance/${address}`, signal });
+  return balances;
+}
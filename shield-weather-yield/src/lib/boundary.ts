@@ -0,0 +1,126 @@
+// Farm boundary geometry. Points are [latitude, longitude], the order Leaflet uses;
+// GeoJSON stores [longitude, latitude] and closes the ring, so conversion happens at the edges.
+
+export type BoundaryPoint = [number, number];
+export type AreaUnit = "acres" | "hectares";
+
+export interface FarmBoundary {
+  points: BoundaryPoint[];
+  areaSqMeters: number;
+  centroid: BoundaryPoint;
+}
+
+const EARTH_RADIUS_METERS = 6378137;
+const SQ_METERS_PER_UNIT: Record<AreaUnit, number> = {
+  acres: 4046.8564224,
+  hectares: 10000,
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Area of a polygon on the WGS84 sphere, in square meters. Same spherical-excess
+ * approximation Leaflet.draw uses; accurate to well under 1% at farm scale.
+ */
+export function geodesicArea(points: BoundaryPoint[]): number {
+  if (points.length < 3) return 0;
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [lat1, lng1] = points[i];
+    const [lat2, lng2] = points[(i + 1) % points.length];
+    sum += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((sum * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2);
+}
+
+/** Area centroid of the polygon, treating lat/lng as planar (fine for a single farm). */
+export function polygonCentroid(points: BoundaryPoint[]): BoundaryPoint {
+  let doubleArea = 0;
+  let lat = 0;
+  let lng = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [y1, x1] = points[i];
+    const [y2, x2] = points[(i + 1) % points.length];
+    const cross = x1 * y2 - x2 * y1;
+    doubleArea += cross;
+    lng += (x1 + x2) * cross;
+    lat += (y1 + y2) * cross;
+  }
+  if (doubleArea === 0) {
+    // Degenerate (collinear) outline: fall back to the vertex average.
+    const count = points.length || 1;
+    return [
+      points.reduce((total, [y]) => total + y, 0) / count,
+      points.reduce((total, [, x]) => total + x, 0) / count,
+    ];
+  }
+  return [lat / (3 * doubleArea), lng / (3 * doubleArea)];
+}
+
+export function toAreaUnit(areaSqMeters: number, unit: AreaUnit): number {
+  return Math.round((areaSqMeters / SQ_METERS_PER_UNIT[unit]) * 100) / 100;
+}
+
+export function describeBoundary(points: BoundaryPoint[]): FarmBoundary {
+  return { points, areaSqMeters: geodesicArea(points), centroid: polygonCentroid(points) };
+}
+
+export function boundaryToGeoJSON(points: BoundaryPoint[]) {
+  const ring = points.map(([lat, lng]) => [lng, lat]);
+  return {
+    type: "Feature" as const,
+    properties: { name: "Farm boundary" },
+    geometry: { type: "Polygon" as const, coordinates: [[...ring, ring[0]]] },
+  };
+}
+
+/**
+ * Reads the outer ring of the first Polygon in a GeoJSON Feature, FeatureCollection
+ * or bare geometry. Throws with a user-facing message when nothing usable is found.
+ */
+export function parseBoundaryGeoJSON(text: string): BoundaryPoint[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const findPolygon = (value: unknown): unknown[] | null => {
+    const node = value as { type?: string; coordinates?: unknown[]; geometry?: unknown; features?: unknown[] };
+    if (!node || typeof node !== "object") return null;
+    if (node.type === "Polygon") return node.coordinates ?? null;
+    if (node.type === "MultiPolygon") return (node.coordinates?.[0] as unknown[]) ?? null;
+    if (node.type === "Feature") return findPolygon(node.geometry);
+    if (node.type === "FeatureCollection") {
+      for (const feature of node.features ?? []) {
+        const polygon = findPolygon(feature);
+        if (polygon) return polygon;
+      }
+    }
+    return null;
+  };
+
+  const polygon = findPolygon(data);
+  const ring = polygon?.[0];
+  if (!Array.isArray(ring)) {
+    throw new Error("No polygon found in the GeoJSON file.");
+  }
+
+  const points = ring.map((position): BoundaryPoint => {
+    const [lng, lat] = position as number[];
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      throw new Error("The polygon contains invalid coordinates.");
+    }
+    return [lat, lng];
+  });
+
+  // Drop the closing vertex that repeats the first one.
+  const [first, last] = [points[0], points[points.length - 1]];
+  if (points.length > 1 && first[0] === last[0] && first[1] === last[1]) points.pop();
+
+  if (points.length < 3) {
+    throw new Error("A farm boundary needs at least three points.");
+  }
+  return points;
+}
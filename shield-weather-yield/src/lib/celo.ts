@@ -1,19 +1,151 @@
-import { BrowserProvider, JsonRpcProvider } from "ethers";
+import { BrowserProvider, JsonRpcProvider, type Eip1193Provider } from "ethers";
 
-export const CELO_ALFAJORES_RPC = "https://alfajores-forno.celo-testnet.org";
+import { DEFAULT_CHAIN_ID, getNetwork, NETWORKS } from "./networks";
 
-export function getBrowserProvider(): BrowserProvider | null {
+// EIP-1193 provider as injected by MetaMask / Valora / Celo extension wallets.
+export interface InjectedProvider extends Eip1193Provider {
+  on?: (event: string, listener: (...args: unknown[]) => void) => void;
+  removeListener?: (event: string, listener: (...args: unknown[]) => void) => void;
+}
+
+// "pending": a wallet prompt from an earlier request is still open (EIP-1193 error -32002).
+export type WalletErrorCode = "no-extension" | "rejected" | "pending" | "no-accounts" | "unknown";
+
+export class WalletError extends Error {
+  code: WalletErrorCode;
+  // The provider error this was built from, if any.
+  cause?: unknown;
+
+  constructor(code: WalletErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = "WalletError";
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export function getInjectedProvider(): InjectedProvider | null {
   if (typeof window === "undefined") return null;
-  const anyWindow = window as any;
-  if (anyWindow.ethereum) {
-    return new BrowserProvider(anyWindow.ethereum);
+  const { ethereum } = window as Window & { ethereum?: InjectedProvider };
+  return ethereum ?? null;
+}
+
+export function getBrowserProvider(): BrowserProvider | null {
+  const ethereum = getInjectedProvider();
+  if (ethereum) {
+    return new BrowserProvider(ethereum);
   }
   return null;
 }
 
-export function getJsonRpcProvider(): JsonRpcProvider {
-  return new JsonRpcProvider(CELO_ALFAJORES_RPC, 44787);
+export function getJsonRpcProvider(chainId?: number | null): JsonRpcProvider {
+  const network = getNetwork(chainId);
+  return new JsonRpcProvider(network.rpcUrl, network.chainId);
+}
+
+function toWalletError(err: unknown): WalletError {
+  if (err instanceof WalletError) return err;
+  const e = err as { code?: number | string; info?: { error?: { code?: number } }; message?: string };
+  // ethers wraps the provider error; the EIP-1193 code may sit on either level.
+  const code = e?.info?.error?.code ?? e?.code;
+  if (code === 4001 || code === "ACTION_REJECTED") {
+    return new WalletError("rejected", "Connection request was rejected in your wallet.");
+  }
+  if (code === -32002) {
+    return new WalletError("pending", "Your wallet already has a connection request open. Finish or dismiss it in your wallet, then try again.");
+  }
+  return new WalletError("unknown", e?.message || "Failed to connect wallet. Please try again.", err);
+}
+
+/**
+ * Prompts the injected wallet for account access and returns the selected
+ * address. Throws a WalletError describing why the connection failed.
+ */
+export async function requestAccount(): Promise<string> {
+  const provider = getBrowserProvider();
+  if (!provider) {
+    throw new WalletError("no-extension", "No wallet extension detected. Install MetaMask or the Celo Extension Wallet.");
+  }
+
+  let accounts: string[];
+  try {
+    accounts = await provider.send("eth_requestAccounts", []);
+  } catch (err) {
+    throw toWalletError(err);
+  }
+
+  if (!accounts || accounts.length === 0) {
+    throw new WalletError("no-accounts", "Your wallet didn't share any accounts. Create or select an account in your wallet and try again.");
+  }
+  return accounts[0];
 }
 
+/**
+ * Subscribes to account, chain and disconnect events of the injected wallet.
+ * Returns an unsubscribe function.
+ */
+export function watchWallet(handlers: {
+  onAccountsChanged?: (accounts: string[]) => void;
+  onChainChanged?: (chainId: number) => void;
+  onDisconnect?: () => void;
+}): () => void {
+  const ethereum = getInjectedProvider();
+  if (!ethereum?.on) return () => {};
 
+  const handleAccounts = (accounts: unknown) => handlers.onAccountsChanged?.((accounts as string[]) ?? []);
+  const handleChain = (chainId: unknown) => handlers.onChainChanged?.(Number(chainId));
+  const handleDisconnect = () => handlers.onDisconnect?.();
 
+  ethereum.on("accountsChanged", handleAccounts);
+  ethereum.on("chainChanged", handleChain);
+  ethereum.on("disconnect", handleDisconnect);
+  return () => {
+    ethereum.removeListener?.("accountsChanged", handleAccounts);
+    ethereum.removeListener?.("chainChanged", handleChain);
+    ethereum.removeListener?.("disconnect", handleDisconnect);
+  };
+}
+
+/** Returns the chainId the injected wallet is on, or null without a wallet. */
+export async function getWalletChainId(): Promise<number | null> {
+  const ethereum = getInjectedProvider();
+  if (!ethereum) return null;
+  const chainId = await ethereum.request({ method: "eth_chainId" });
+  return Number(chainId);
+}
+
+/**
+ * Asks the wallet to switch to the given network (the default network when
+ * omitted), adding it first if the wallet does not know it yet (error 4902).
+ */
+export async function switchNetwork(chainId: number = DEFAULT_CHAIN_ID): Promise<void> {
+  const ethereum = getInjectedProvider();
+  if (!ethereum) {
+    throw new WalletError("no-extension", "No wallet extension detected. Install MetaMask or the Celo Extension Wallet.");
+  }
+
+  const network = NETWORKS[chainId];
+  const hexChainId = "0x" + chainId.toString(16);
+  try {
+    await ethereum.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: hexChainId }],
+    });
+  } catch (err) {
+    const code = (err as { code?: number })?.code;
+    if (code !== 4902 || !network) throw toWalletError(err);
+    // Parameters for wallet_addEthereumChain (EIP-3085).
+    const params = {
+      chainId: hexChainId,
+      chainName: network.name,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: [network.rpcUrl],
+      blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+    };
+    try {
+      await ethereum.request({ method: "wallet_addEthereumChain", params: [params] });
+    } catch (addErr) {
+      throw toWalletError(addErr);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { formatUnits, type Provider } from "ethers";
+
+import { getJsonRpcProvider } from "./celo";
+import { CUSD_DECIMALS, getPayoutManager, getPremiumPool } from "./contracts";
+import { getExplorerTxUrl, getNetwork } from "./networks";
+import { parseClaim, type Claim } from "@/types";
+
+// Deploy blocks found on chain, per chain and contract, for networks without a manifest.
+const discoveredDeployBlocks = new Map<string, Promise<number>>();
+
+// Blocks per eth_getLogs call; public RPC nodes reject very wide ranges.
+const BLOCK_RANGE = 50_000;
+// Stop scanning backwards once a page has this many entries...
+const PAGE_SIZE = 10;
+// ...or after this many ranges, so empty history does not scan the whole chain in one go.
+const MAX_RANGES_PER_PAGE = 10;
+
+export interface ClaimsPage {
+  claims: Claim[];
+  // Highest block of the next (older) page, or null once the deploy block is reached.
+  nextToBlock: number | null;
+}
+
+interface ClaimEvent {
+  kind: Claim["kind"];
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  amount: bigint;
+}
+
+function toClaimEvent(
+  kind: Claim["kind"],
+  event: { transactionHash: string; blockNumber: number; index: number; args: { amount: bigint } }
+): ClaimEvent {
+  return { kind, txHash: event.transactionHash, blockNumber: event.blockNumber, logIndex: event.index, amount: event.args.amount };
+}
+
+async function blockTimestamps(provider: Provider, blockNumbers: number[]): Promise<Map<number, string>> {
+  const unique = [...new Set(blockNumbers)];
+  const blocks = await Promise.all(unique.map((number) => provider.getBlock(number)));
+  return new Map(
+    unique.map((number, index) => [number, new Date((blocks[index]?.timestamp ?? 0) * 1000).toISOString()])
+  );
+}
+
+// Binary search for the first block where `address` has code.
+async function findDeployBlock(provider: Provider, address: string): Promise<number> {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === "0x") {
+    throw new Error(`No contract is deployed at ${address}.`);
+  }
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === "0x") low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+// The configured deploy block, or the earlier of the two event sources' deploy blocks.
+async function resolveDeployBlock(provider: Provider, chainId: number | null): Promise<number> {
+  const network = getNetwork(chainId);
+  if (network.deployBlock != null) return network.deployBlock;
+
+  const addresses = [network.contracts.PremiumPool, network.contracts.PayoutManager];
+  const blocks = addresses.map((address) => {
+    const key = `${network.chainId}:${address.toLowerCase()}`;
+    let block = discoveredDeployBlocks.get(key);
+    if (!block) {
+      block = findDeployBlock(provider, address);
+      // Failed lookups are retried on the next page load.
+      block.catch(() => discoveredDeployBlocks.delete(key));
+      discoveredDeployBlocks.set(key, block);
+    }
+    return block;
+  });
+  return Math.min(...(await Promise.all(blocks)));
+}
+
+/**
+ * Loads PayoutTriggered and PremiumPaid events for a farmer, scanning block
+ * ranges backwards from `toBlock` (latest when omitted). Newest first.
+ */
+export async function fetchClaimsPage(
+  farmer: string,
+  chainId: number | null,
+  toBlock?: number
+): Promise<ClaimsPage> {
+  const provider = getJsonRpcProvider(chainId);
+  const payoutManager = getPayoutManager(provider, chainId);
+  const premiumPool = getPremiumPool(provider, chainId);
+  const deployBlock = await resolveDeployBlock(provider, chainId);
+
+  let upper = toBlock ?? (await provider.getBlockNumber());
+  const events: ClaimEvent[] = [];
+
+  for (let range = 0; range < MAX_RANGES_PER_PAGE && upper >= deployBlock && events.length < PAGE_SIZE; range++) {
+    const lower = Math.max(deployBlock, upper - BLOCK_RANGE + 1);
+    const [payouts, premiums] = await Promise.all([
+      payoutManager.queryFilter(payoutManager.filters.PayoutTriggered(farmer), lower, upper),
+      premiumPool.queryFilter(premiumPool.filters.PremiumPaid(farmer), lower, upper),
+    ]);
+    events.push(
+      ...payouts.map((event) => toClaimEvent("payout", event)),
+      ...premiums.map((event) => toClaimEvent("premium", event))
+    );
+    upper = lower - 1;
+  }
+
+  events.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+  const timestamps = await blockTimestamps(provider, events.map((event) => event.blockNumber));
+
+  const claims = events.map((event) => {
+    const timestamp = timestamps.get(event.blockNumber) as string;
+    return parseClaim({
+      id: `${event.txHash}-${event.logIndex}`,
+      claimId: `${event.kind === "payout" ? "PAYOUT" : "PREMIUM"}-${event.txHash.slice(2, 10).toUpperCase()}`,
+      kind: event.kind,
+      status: "paid",
+      amount: Number(formatUnits(event.amount, CUSD_DECIMALS)),
+      triggerReason: event.kind === "payout" ? "Weather threshold breached, payout sent" : "Premium paid into the pool",
+      createdAt: timestamp,
+      paidAt: timestamp,
+      txHash: event.txHash,
+      blockNumber: event.blockNumber,
+      explorerUrl: getExplorerTxUrl(event.txHash, chainId),
+    });
+  });
+
+  return { claims, nextToBlock: upper >= deployBlock ? upper : null };
+}
@@ -0,0 +1,293 @@
+import { AbiCoder, Interface, dataSlice, type JsonFragment } from "ethers";
+import { FarmerRegistry__factory, PayoutManager__factory, PremiumPool__factory } from "@contracts";
+
+import { WalletError, type WalletErrorCode } from "./celo";
+import { TransactionRevertedError } from "./transactions";
+
+export type ContractErrorCode =
+  | "rejected"
+  | "no-wallet"
+  | "wallet-request-pending"
+  | "no-accounts"
+  | "insufficient-gas-funds"
+  | "farmer-not-registered"
+  | "farmer-already-registered"
+  | "invalid-amount"
+  | "insufficient-cusd"
+  | "insufficient-allowance"
+  | "token-transfer-failed"
+  | "unauthorized"
+  | "reentrant-call"
+  | "network"
+  | "reverted"
+  | "unknown";
+
+export interface DecodedContractError {
+  code: ContractErrorCode;
+  // Revert string or custom error name, when the chain returned one.
+  reason?: string;
+}
+
+// Where the error happened; contexts replace some messages with advice for that action.
+export type ContractErrorContext =
+  | "connect"
+  | "switch-network"
+  | "sign-in"
+  | "registration"
+  | "payment"
+  | "farm-update"
+  | "farmer-read"
+  | "premium-read";
+
+interface ContractErrorCatalog {
+  messages: Record<ContractErrorCode, string>;
+  contexts: Record<ContractErrorContext, Partial<Record<ContractErrorCode, string>>>;
+  // For revert reasons that have no message of their own.
+  rejectedWithReason: (reason: string) => string;
+}
+
+type ContractErrorLocale = "en" | "sw";
+
+const en: ContractErrorCatalog = {
+  messages: {
+    rejected: "You rejected the transaction in your wallet.",
+    "no-wallet": "No wallet extension detected. Install MetaMask or the Celo Extension Wallet.",
+    "wallet-request-pending": "Your wallet already has a request open. Finish or dismiss it in your wallet, then try again.",
+    "no-accounts": "Your wallet didn't share any accounts. Create or select an account in your wallet and try again.",
+    "insufficient-gas-funds": "Your wallet doesn't have enough CELO to pay the network fee.",
+    "farmer-not-registered": "This wallet is not registered with WeatherShield.",
+    "farmer-already-registered": "This wallet is already registered with WeatherShield.",
+    "invalid-amount": "Amount must be greater than 0.",
+    "insufficient-cusd": "Your cUSD balance is too low for this payment.",
+    "insufficient-allowance": "The premium pool isn't approved to spend that much cUSD.",
+    "token-transfer-failed": "The cUSD transfer failed. Check your balance and approval, then try again.",
+    unauthorized: "Only the WeatherShield administrator can do that.",
+    "reentrant-call": "The contract is busy with another payout. Please try again.",
+    network: "Couldn't reach the Celo network. Check your connection and try again.",
+    reverted: "The contract rejected the transaction.",
+    unknown: "Something went wrong. Please try again.",
+  },
+  contexts: {
+    connect: {
+      rejected: "Connection request was rejected in your wallet.",
+      unknown: "Failed to connect wallet. Please try again.",
+    },
+    "switch-network": {
+      rejected: "You rejected the network switch in your wallet.",
+      unknown: "Failed to switch network.",
+    },
+    "sign-in": { unknown: "Sign-in failed. Please try again." },
+    registration: {
+      "farmer-already-registered": "This wallet is already registered with WeatherShield. Head to your dashboard instead.",
+      unknown: "Registration failed. Please try again.",
+    },
+    payment: {
+      "farmer-not-registered": "Register your farm before paying a premium.",
+      unknown: "Payment failed. Please try again.",
+    },
+    "farm-update": { unknown: "Update failed. Please try again." },
+    "farmer-read": { unknown: "We couldn't read your registration from the Celo network." },
+    "premium-read": { unknown: "Couldn't read your premiums from the Celo network." },
+  },
+  rejectedWithReason: (reason) => `The contract rejected the transaction: ${reason}.`,
+};
+
+const sw: ContractErrorCatalog = {
+  messages: {
+    rejected: "Ulikataa muamala kwenye pochi yako.",
+    "no-wallet": "Hakuna pochi iliyopatikana kwenye kivinjari. Sakinisha MetaMask au Celo Extension Wallet.",
+    "wallet-request-pending": "Pochi yako tayari ina ombi lililo wazi. Likamilishe au ulifunge kwenye pochi, kisha ujaribu tena.",
+    "no-accounts": "Pochi yako haikutoa akaunti yoyote. Unda au chagua akaunti kwenye pochi yako, kisha ujaribu tena.",
+    "insufficient-gas-funds": "Pochi yako haina CELO ya kutosha kulipia ada ya mtandao.",
+    "farmer-not-registered": "Pochi hii haijasajiliwa na WeatherShield.",
+    "farmer-already-registered": "Pochi hii tayari imesajiliwa na WeatherShield.",
+    "invalid-amount": "Kiasi lazima kiwe zaidi ya 0.",
+    "insufficient-cusd": "Salio lako la cUSD halitoshi kwa malipo haya.",
+    "insufficient-allowance": "Hazina ya ada haijaruhusiwa kutumia kiasi hicho cha cUSD.",
+    "token-transfer-failed": "Uhamisho wa cUSD umeshindikana. Angalia salio na idhini yako, kisha ujaribu tena.",
+    unauthorized: "Ni msimamizi wa WeatherShield pekee anayeweza kufanya hivyo.",
+    "reentrant-call": "Mkataba unashughulikia malipo mengine. Tafadhali jaribu tena.",
+    network: "Imeshindikana kufikia mtandao wa Celo. Angalia muunganisho wako kisha ujaribu tena.",
+    reverted: "Mkataba umekataa muamala.",
+    unknown: "Hitilafu imetokea. Tafadhali jaribu tena.",
+  },
+  contexts: {
+    connect: {
+      rejected: "Ombi la kuunganisha lilikataliwa kwenye pochi yako.",
+      unknown: "Imeshindikana kuunganisha pochi. Tafadhali jaribu tena.",
+    },
+    "switch-network": {
+      rejected: "Ulikataa kubadilisha mtandao kwenye pochi yako.",
+      unknown: "Imeshindikana kubadilisha mtandao.",
+    },
+    "sign-in": { unknown: "Kuingia kumeshindikana. Tafadhali jaribu tena." },
+    registration: {
+      "farmer-already-registered": "Pochi hii tayari imesajiliwa na WeatherShield. Nenda kwenye dashibodi yako badala yake.",
+      unknown: "Usajili umeshindikana. Tafadhali jaribu tena.",
+    },
+    payment: {
+      "farmer-not-registered": "Sajili shamba lako kabla ya kulipa ada.",
+      unknown: "Malipo yameshindikana. Tafadhali jaribu tena.",
+    },
+    "farm-update": { unknown: "Kusasisha kumeshindikana. Tafadhali jaribu tena." },
+    "farmer-read": { unknown: "Hatukuweza kusoma usajili wako kutoka mtandao wa Celo." },
+    "premium-read": { unknown: "Hatukuweza kusoma ada zako kutoka mtandao wa Celo." },
+  },
+  rejectedWithReason: (reason) => `Mkataba umekataa muamala: ${reason}.`,
+};
+
+const CATALOGS: Record<ContractErrorLocale, ContractErrorCatalog> = { en, sw };
+
+// The browser's preferred language when there is a catalog for it, English otherwise.
+function detectLocale(): ContractErrorLocale {
+  const languages = typeof navigator === "undefined" ? [] : (navigator.languages ?? [navigator.language]);
+  for (const language of languages) {
+    const base = language?.split("-")[0].toLowerCase();
+    if (base && base in CATALOGS) return base as ContractErrorLocale;
+  }
+  return "en";
+}
+
+const catalog = CATALOGS[detectLocale()];
+
+// require() messages in weathershield-contracts, plus the legacy ERC20 strings cUSD reverts with.
+const REVERT_STRINGS: Record<string, ContractErrorCode> = {
+  "Farmer not registered": "farmer-not-registered",
+  "Farmer already registered": "farmer-already-registered",
+  "Amount must be greater than 0": "invalid-amount",
+  "ERC20: transfer amount exceeds balance": "insufficient-cusd",
+  "ERC20: insufficient allowance": "insufficient-allowance",
+  "ERC20: transfer amount exceeds allowance": "insufficient-allowance",
+};
+
+// OpenZeppelin custom errors declared in the contract ABIs.
+const CUSTOM_ERRORS: Record<string, ContractErrorCode> = {
+  OwnableUnauthorizedAccount: "unauthorized",
+  OwnableInvalidOwner: "unauthorized",
+  SafeERC20FailedOperation: "token-transfer-failed",
+  ReentrancyGuardReentrantCall: "reentrant-call",
+};
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// Every contract shares the Ownable errors; keep one fragment per name so Interface accepts the union.
+const errorFragments = new Map<string, JsonFragment>();
+for (const abi of [FarmerRegistry__factory.abi, PremiumPool__factory.abi, PayoutManager__factory.abi]) {
+  for (const fragment of abi as readonly JsonFragment[]) {
+    if (fragment.type === "error" && fragment.name) errorFragments.set(fragment.name, fragment);
+  }
+}
+const errorInterface = new Interface([...errorFragments.values()]);
+
+interface RawError {
+  code?: string | number;
+  reason?: string | null;
+  shortMessage?: string;
+  message?: string;
+  data?: unknown;
+  revert?: { name?: string; args?: unknown[] } | null;
+  info?: { error?: RawError };
+  error?: RawError;
+  cause?: RawError;
+}
+
+// ethers, injected wallets and JSON-RPC nodes each nest the original error differently.
+function errorChain(error: unknown): RawError[] {
+  const chain: RawError[] = [];
+  let current = error as RawError | undefined;
+  while (current && typeof current === "object" && chain.length < 5 && !chain.includes(current)) {
+    chain.push(current);
+    current = current.info?.error ?? current.error ?? current.cause;
+  }
+  return chain;
+}
+
+function revertData(err: RawError): string | undefined {
+  const data = err.data as string | { data?: string } | undefined;
+  const hex = typeof data === "string" ? data : data?.data;
+  return typeof hex === "string" && hex.startsWith("0x") && hex.length >= 10 ? hex : undefined;
+}
+
+function decodeRevertData(data: string): DecodedContractError | undefined {
+  const selector = dataSlice(data, 0, 4);
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4));
+    return fromRevertString(reason);
+  }
+  if (selector === PANIC_SELECTOR) {
+    return { code: "reverted", reason: "Panic" };
+  }
+  try {
+    const parsed = errorInterface.parseError(data);
+    if (parsed) return { code: CUSTOM_ERRORS[parsed.name] ?? "reverted", reason: parsed.name };
+  } catch {
+    // Not one of ours; fall through to message parsing.
+  }
+  return undefined;
+}
+
+function fromRevertString(reason: string): DecodedContractError {
+  return { code: REVERT_STRINGS[reason] ?? "reverted", reason };
+}
+
+const WALLET_ERROR_CODES: Record<Exclude<WalletErrorCode, "unknown">, ContractErrorCode> = {
+  rejected: "rejected",
+  "no-extension": "no-wallet",
+  pending: "wallet-request-pending",
+  "no-accounts": "no-accounts",
+};
+
+// Wallets that don't expose revert data still echo the reason in their message.
+const REVERT_MESSAGE = /(?:execution reverted|reverted with reason string)[:\s]*'?([^'"\n]*)'?/i;
+
+/** Classifies a wallet, RPC or contract error from any of the WeatherShield contracts. */
+export function decodeContractError(error: unknown): DecodedContractError {
+  if (error instanceof TransactionRevertedError) return { code: "reverted" };
+  if (error instanceof WalletError && error.code !== "unknown") return { code: WALLET_ERROR_CODES[error.code] };
+
+  const chain = errorChain(error);
+
+  for (const err of chain) {
+    if (err.code === "ACTION_REJECTED" || err.code === 4001) return { code: "rejected" };
+    if (err.code === "INSUFFICIENT_FUNDS" || /insufficient funds/i.test(err.message ?? "")) {
+      return { code: "insufficient-gas-funds" };
+    }
+  }
+
+  for (const err of chain) {
+    if (err.revert?.name && err.revert.name !== "Error") {
+      return { code: CUSTOM_ERRORS[err.revert.name] ?? "reverted", reason: err.revert.name };
+    }
+    if (err.reason) return fromRevertString(err.reason);
+    const data = revertData(err);
+    const decoded = data && decodeRevertData(data);
+    if (decoded) return decoded;
+  }
+
+  for (const err of chain) {
+    const match = REVERT_MESSAGE.exec(err.message ?? "");
+    if (match) return match[1].trim() ? fromRevertString(match[1].trim()) : { code: "reverted" };
+    if (err.code === "CALL_EXCEPTION") return { code: "reverted" };
+    if (err.code === "NETWORK_ERROR" || err.code === "TIMEOUT" || err.code === "SERVER_ERROR") {
+      return { code: "network" };
+    }
+  }
+
+  return { code: "unknown" };
+}
+
+/**
+ * Message to show for a failed wallet or contract call, in the browser's language.
+ * `context` swaps in the catalog's advice for that action, e.g. a page-specific
+ * "unknown" fallback.
+ */
+export function describeContractError(error: unknown, context?: ContractErrorContext): string {
+  const { code, reason } = decodeContractError(error);
+  const contextMessage = context && catalog.contexts[context][code];
+  if (contextMessage) return contextMessage;
+  if (code === "reverted" && reason && !CUSTOM_ERRORS[reason]) {
+    return catalog.rejectedWithReason(reason);
+  }
+  return catalog.messages[code];
+}
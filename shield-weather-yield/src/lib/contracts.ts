@@ -1,40 +1,38 @@
-import { Contract, Provider, Signer } from "ethers";
-import farmerRegistry from "./abi/FarmerRegistry.json";
-import premiumPool from "./abi/PremiumPool.json";
-import payoutManager from "./abi/PayoutManager.json";
+import type { Provider, Signer } from "ethers";
+import {
+  FarmerRegistry__factory,
+  IERC20__factory,
+  PayoutManager__factory,
+  PremiumPool__factory,
+  type FarmerRegistry,
+  type IERC20,
+  type PayoutManager,
+  type PremiumPool,
+} from "@contracts";
+import { getNetwork, type ContractAddresses } from "./networks";
 
-export const ADDRESSES = {
-  alfajores: {
-    FarmerRegistry: "0x805dE0a2FC7e4818D19366f7191B162cB84dE89a",
-    PremiumPool: "0xbfA80344cD3f706C80EF9924560E87E422507867",
-    PayoutManager: "0x43A839630a3dB74dE461628bb5A665A22D4f8b90",
-    cUSD: "0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1",
-  },
-} as const;
+export type { FarmerRegistry, IERC20, PayoutManager, PremiumPool };
 
-export function getFarmerRegistry(providerOrSigner: Provider | Signer) {
-  return new Contract(
-    ADDRESSES.alfajores.FarmerRegistry,
-    (farmerRegistry as any).abi,
-    providerOrSigner
-  );
-}
+// cUSD, like every Celo stable token, uses 18 decimals.
+export const CUSD_DECIMALS = 18;
 
-export function getPremiumPool(providerOrSigner: Provider | Signer) {
-  return new Contract(
-    ADDRESSES.alfajores.PremiumPool,
-    (premiumPool as any).abi,
-    providerOrSigner
-  );
+/** Contract addresses for the wallet's chain, or the default network's. */
+export function getAddresses(chainId?: number | null): ContractAddresses {
+  return getNetwork(chainId).contracts;
 }
 
-export function getPayoutManager(providerOrSigner: Provider | Signer) {
-  return new Contract(
-    ADDRESSES.alfajores.PayoutManager,
-    (payoutManager as any).abi,
-    providerOrSigner
-  );
+export function getFarmerRegistry(providerOrSigner: Provider | Signer, chainId?: number | null): FarmerRegistry {
+  return FarmerRegistry__factory.connect(getAddresses(chainId).FarmerRegistry, providerOrSigner);
 }
 
+export function getPremiumPool(providerOrSigner: Provider | Signer, chainId?: number | null): PremiumPool {
+  return PremiumPool__factory.connect(getAddresses(chainId).PremiumPool, providerOrSigner);
+}
 
+export function getPayoutManager(providerOrSigner: Provider | Signer, chainId?: number | null): PayoutManager {
+  return PayoutManager__factory.connect(getAddresses(chainId).PayoutManager, providerOrSigner);
+}
 
+export function getCusdToken(providerOrSigner: Provider | Signer, chainId?: number | null): IERC20 {
+  return IERC20__factory.connect(getAddresses(chainId).cUSD, providerOrSigner);
+}
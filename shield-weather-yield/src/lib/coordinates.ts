@@ -0,0 +1,13 @@
+// Plain latitude/longitude helpers, kept apart from lib/map so the geocoders don't load Leaflet.
+
+/** Parses a user-entered coordinate, returning null when it is not a number within ±limit. */
+export function parseCoordinate(value: string, limit: 90 | 180): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) return null;
+  return parsed;
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+}
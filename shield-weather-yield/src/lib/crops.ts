@@ -0,0 +1,69 @@
+import type { WeatherThresholds } from "./thresholds";
+
+export interface CropType {
+  value: string;
+  label: string;
+  icon: string;
+  // Starting thresholds (°C, mm/day, %, km/h); the farmer can adjust them when registering.
+  thresholds?: WeatherThresholds;
+}
+
+export const cropTypes: CropType[] = [
+  {
+    value: "wheat",
+    label: "Wheat",
+    icon: "🌾",
+    thresholds: { temperature: { min: -5, max: 32 }, rainfall: { max: 50 }, humidity: { min: 20, max: 90 }, windSpeed: { max: 60 } },
+  },
+  {
+    value: "rice",
+    label: "Rice",
+    icon: "🌾",
+    thresholds: { temperature: { min: 10, max: 38 }, rainfall: { max: 100 }, humidity: { min: 40, max: 95 }, windSpeed: { max: 60 } },
+  },
+  {
+    value: "corn",
+    label: "Corn",
+    icon: "🌽",
+    thresholds: { temperature: { min: 5, max: 35 }, rainfall: { max: 60 }, humidity: { min: 25, max: 90 }, windSpeed: { max: 55 } },
+  },
+  {
+    value: "soybean",
+    label: "Soybean",
+    icon: "🫘",
+    thresholds: { temperature: { min: 5, max: 35 }, rainfall: { max: 60 }, humidity: { min: 25, max: 90 }, windSpeed: { max: 55 } },
+  },
+  {
+    value: "cotton",
+    label: "Cotton",
+    icon: "🌿",
+    thresholds: { temperature: { min: 10, max: 40 }, rainfall: { max: 50 }, humidity: { min: 20, max: 85 }, windSpeed: { max: 50 } },
+  },
+  {
+    value: "sugarcane",
+    label: "Sugarcane",
+    icon: "🎋",
+    thresholds: { temperature: { min: 10, max: 40 }, rainfall: { max: 100 }, humidity: { min: 40, max: 95 }, windSpeed: { max: 60 } },
+  },
+  {
+    value: "potato",
+    label: "Potato",
+    icon: "🥔",
+    thresholds: { temperature: { min: 0, max: 30 }, rainfall: { max: 40 }, humidity: { min: 30, max: 90 }, windSpeed: { max: 55 } },
+  },
+  {
+    value: "tomato",
+    label: "Tomato",
+    icon: "🍅",
+    thresholds: { temperature: { min: 8, max: 32 }, rainfall: { max: 40 }, humidity: { min: 30, max: 85 }, windSpeed: { max: 45 } },
+  },
+  { value: "other", label: "Other", icon: "🌱" },
+];
+
+export function getCropType(value?: string): CropType | undefined {
+  return cropTypes.find((crop) => crop.value === value);
+}
+
+export function cropThresholds(value?: string): WeatherThresholds | undefined {
+  return getCropType(value)?.thresholds;
+}
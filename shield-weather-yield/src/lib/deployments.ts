@@ -0,0 +1,60 @@
+import { keccak256, toUtf8Bytes } from "ethers";
+import { FarmerRegistry__factory, PayoutManager__factory, PremiumPool__factory } from "@contracts";
+
+// Shape written by weathershield-contracts/scripts/deploy.ts.
+const SUPPORTED_MANIFEST_VERSION = 1;
+
+export interface DeployedContract {
+  address: string;
+  txHash: string;
+  deployBlock: number;
+  abiHash: string;
+}
+
+export interface DeploymentManifest {
+  manifestVersion: number;
+  network: string;
+  chainId: number;
+  deployer: string;
+  deployedAt: string;
+  compiler: string;
+  cUSD: string;
+  contracts: {
+    FarmerRegistry: DeployedContract;
+    PremiumPool: DeployedContract;
+    PayoutManager: DeployedContract;
+  };
+}
+
+const manifestModules = import.meta.glob<DeploymentManifest>("@deployments/*.json", {
+  eager: true,
+  import: "default",
+});
+
+const FACTORY_ABIS = {
+  FarmerRegistry: FarmerRegistry__factory.abi,
+  PremiumPool: PremiumPool__factory.abi,
+  PayoutManager: PayoutManager__factory.abi,
+};
+
+// A mismatch means the contracts were redeployed from sources that typechain has not been regenerated for.
+function warnOnAbiDrift(manifest: DeploymentManifest) {
+  for (const [name, abi] of Object.entries(FACTORY_ABIS)) {
+    const deployed = manifest.contracts[name as keyof typeof FACTORY_ABIS];
+    if (deployed && keccak256(toUtf8Bytes(JSON.stringify(abi))) !== deployed.abiHash) {
+      console.warn(`${name} on chain ${manifest.chainId} was deployed with a different ABI than the bundled typechain types.`);
+    }
+  }
+}
+
+/** Deployment manifests bundled at build time, keyed by chainId. */
+export const DEPLOYMENTS: Record<number, DeploymentManifest> = {};
+
+for (const [file, manifest] of Object.entries(manifestModules)) {
+  if (manifest.manifestVersion !== SUPPORTED_MANIFEST_VERSION) {
+    console.warn(`Ignoring ${file}: unsupported manifest version ${manifest.manifestVersion}.`);
+    continue;
+  }
+  if (import.meta.env.DEV) warnOnAbiDrift(manifest);
+  DEPLOYMENTS[manifest.chainId] = manifest;
+}
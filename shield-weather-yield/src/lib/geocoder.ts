@@ -0,0 +1,99 @@
+import axios from "axios";
+
+import { offlineGeocoder } from "./offline-geocoder";
+
+export interface GeocodedPlace {
+  latitude: number;
+  longitude: number;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+  // True when only a coarse region lookup was possible and the farmer should confirm the fields.
+  approximate: boolean;
+}
+
+export interface Geocoder {
+  reverse(latitude: number, longitude: number, signal?: AbortSignal): Promise<GeocodedPlace | null>;
+  search(query: string, signal?: AbortSignal): Promise<GeocodedPlace[]>;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: Record<string, string | undefined>;
+}
+
+function fromNominatim(place: NominatimPlace): GeocodedPlace {
+  const address = place.address ?? {};
+  return {
+    latitude: Number(place.lat),
+    longitude: Number(place.lon),
+    address: place.display_name,
+    city:
+      address.city ?? address.town ?? address.village ?? address.hamlet ?? address.municipality ?? address.county ?? "",
+    state: address.state ?? address.region ?? address.province ?? address.state_district ?? "",
+    country: address.country ?? "",
+    approximate: false,
+  };
+}
+
+/**
+ * Geocoder for the Nominatim HTTP API, or any server that mimics it. Nominatim's usage
+ * policy forbids search-as-you-type, so callers should only search on explicit submit.
+ */
+export function createNominatimGeocoder(baseUrl: string): Geocoder {
+  const http = axios.create({
+    baseURL: baseUrl,
+    timeout: 8000,
+    params: { format: "jsonv2", addressdetails: 1, "accept-language": navigator.language },
+  });
+
+  return {
+    async reverse(latitude, longitude, signal) {
+      const { data } = await http.get<NominatimPlace & { error?: string }>("/reverse", {
+        params: { lat: latitude, lon: longitude, zoom: 14 },
+        signal,
+      });
+      // Nominatim answers 200 with an error body for points in the sea.
+      return data.error ? null : { ...fromNominatim(data), latitude, longitude };
+    },
+
+    async search(query, signal) {
+      const { data } = await http.get<NominatimPlace[]>("/search", { params: { q: query, limit: 5 }, signal });
+      return data.map(fromNominatim);
+    },
+  };
+}
+
+/** Uses `primary`, falling back when it fails or finds nothing (offline, rate-limited, sea). */
+export function withFallback(primary: Geocoder, fallback: Geocoder): Geocoder {
+  return {
+    async reverse(latitude, longitude, signal) {
+      try {
+        const place = await primary.reverse(latitude, longitude, signal);
+        if (place) return place;
+      } catch (err) {
+        if (axios.isCancel(err)) throw err;
+      }
+      return fallback.reverse(latitude, longitude, signal);
+    },
+
+    async search(query, signal) {
+      try {
+        const places = await primary.search(query, signal);
+        if (places.length > 0) return places;
+      } catch (err) {
+        if (axios.isCancel(err)) throw err;
+      }
+      return fallback.search(query, signal);
+    },
+  };
+}
+
+// Set VITE_GEOCODER_URL to a local Nominatim-compatible server, or to "offline" to skip HTTP entirely.
+const GEOCODER_URL = import.meta.env.VITE_GEOCODER_URL ?? "https://nominatim.openstreetmap.org";
+
+export const geocoder: Geocoder =
+  GEOCODER_URL === "offline" ? offlineGeocoder : withFallback(createNominatimGeocoder(GEOCODER_URL), offlineGeocoder);
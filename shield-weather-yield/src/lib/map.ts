@@ -0,0 +1,30 @@
+import L from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+
+// Point these at a local tile server when the public OSM tiles are unreachable.
+export const TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL ?? "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ??
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Continental US, matching the farms the app was first piloted with.
+export const DEFAULT_CENTER: [number, number] = [39.8283, -98.5795];
+export const DEFAULT_ZOOM = 4;
+export const PIN_ZOOM = 13;
+
+// Leaflet resolves its default marker images relative to the CSS file, which breaks once bundled.
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+});
+
+// Handle for dragging a boundary vertex.
+export const VERTEX_ICON = L.divIcon({
+  className: "",
+  iconSize: [12, 12],
+  html: '<div class="w-3 h-3 rounded-full bg-white border-2 border-green-600 shadow"></div>',
+});
@@ -0,0 +1,73 @@
+import { Wallet } from "ethers";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { getNonce, login, verifySignature } from "./api";
+import { ApiError, getAuthToken, setAuthToken } from "./api-client";
+import { resetMockApi } from "./mock-api";
+import { createSiweMessage, formatSiweMessage } from "./siwe";
+
+// Fixed test keys; never funded.
+const wallet = new Wallet(`0x${"11".repeat(32)}`);
+const otherWallet = new Wallet(`0x${"22".repeat(32)}`);
+
+async function signIn(message: string, signer = wallet) {
+  const signature = await signer.signMessage(message);
+  return { walletAddress: signer.address, message, signature };
+}
+
+describe("mock auth API", () => {
+  beforeEach(() => resetMockApi());
+  afterEach(() => setAuthToken(null));
+
+  it("signs in with a message carrying an issued nonce", async () => {
+    const nonce = await getNonce(wallet.address);
+    const credentials = await signIn(formatSiweMessage(createSiweMessage(wallet.address, 44787, nonce)));
+
+    expect(await verifySignature(credentials)).toBe(true);
+    const farmer = await login(credentials);
+
+    expect(farmer.walletAddress).toBe(wallet.address.toLowerCase());
+    expect(getAuthToken()).toBeTruthy();
+  });
+
+  it("rejects a nonce the server never issued", async () => {
+    const credentials = await signIn(formatSiweMessage(createSiweMessage(wallet.address, 44787, "0123456789abcdef")));
+
+    expect(await verifySignature(credentials)).toBe(false);
+    await expect(login(credentials)).rejects.toMatchObject({ status: 400 });
+    expect(getAuthToken()).toBeNull();
+  });
+
+  it("rejects a nonce issued to another wallet", async () => {
+    const nonce = await getNonce(otherWallet.address);
+    const credentials = await signIn(formatSiweMessage(createSiweMessage(wallet.address, 44787, nonce)));
+
+    await expect(login(credentials)).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it("rejects an expired message", async () => {
+    const nonce = await getNonce(wallet.address);
+    const issuedAt = new Date(Date.now() - 60 * 60 * 1000);
+    const credentials = await signIn(formatSiweMessage(createSiweMessage(wallet.address, 44787, nonce, issuedAt)));
+
+    expect(await verifySignature(credentials)).toBe(false);
+    await expect(login(credentials)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("accepts each nonce only once", async () => {
+    const nonce = await getNonce(wallet.address);
+    const credentials = await signIn(formatSiweMessage(createSiweMessage(wallet.address, 44787, nonce)));
+
+    await login(credentials);
+
+    await expect(login(credentials)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("rejects a message signed by a different wallet", async () => {
+    const nonce = await getNonce(wallet.address);
+    const message = formatSiweMessage(createSiweMessage(wallet.address, 44787, nonce));
+    const { signature } = await signIn(message, otherWallet);
+
+    await expect(login({ walletAddress: wallet.address, message, signature })).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,148 @@
+import { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from "axios";
+import { isAddress, verifyMessage } from "ethers";
+
+import type { FarmerProfile } from "./api";
+import { parseSiweMessage } from "./siwe";
+
+// In-memory stand-in for the backend's /auth routes, used when VITE_API_MOCK=true
+// so sign-in can be exercised without MongoDB. Like the real server it only accepts
+// unexpired messages carrying a nonce it issued, and each nonce signs in once.
+
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+// The backend's NONCE_TTL_MS.
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+const farmers = new Map<string, FarmerProfile>();
+// nonce -> lowercase wallet address and expiry.
+const issuedNonces = new Map<string, { walletAddress: string; expiresAt: number }>();
+
+/** Forgets every mock farmer and nonce. */
+export function resetMockApi(): void {
+  farmers.clear();
+  issuedNonces.clear();
+}
+
+/** Adds (or replaces) the profile returned for `profile.walletAddress`. */
+export function seedMockFarmer(profile: FarmerProfile): void {
+  farmers.set(profile.walletAddress.toLowerCase(), profile);
+}
+
+function demoFarmer(address: string): FarmerProfile {
+  return {
+    id: `mock-${address.slice(2, 10)}`,
+    walletAddress: address,
+    name: "Demo Farmer",
+    email: `${address.slice(2, 10)}@example.com`,
+    location: {
+      latitude: -1.2921,
+      longitude: 36.8219,
+      address: "Demo Farm Road",
+      city: "Nairobi",
+      state: "Nairobi",
+      country: "Kenya",
+    },
+    farmDetails: {
+      cropType: "corn",
+      farmSize: 5,
+      farmSizeUnit: "acres",
+      plantingDate: "2026-03-01",
+      expectedHarvestDate: "2026-08-01",
+    },
+    insuranceDetails: { isRegistered: false, policyStatus: "inactive" },
+    isActive: true,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const base64url = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+
+// Same claims as the backend's generateToken; the signature part is a placeholder.
+function issueToken(address: string): string {
+  const exp = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  return `${base64url({ alg: "none", typ: "JWT" })}.${base64url({ farmerId: address, exp })}.mock`;
+}
+
+function farmerForToken(authorization: string | undefined): FarmerProfile | undefined {
+  try {
+    const token = authorization?.replace("Bearer ", "") ?? "";
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { farmerId, exp } = JSON.parse(atob(payload)) as { farmerId: string; exp: number };
+    return exp * 1000 > Date.now() ? farmers.get(farmerId) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function issueNonce(walletAddress: string): string {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(12)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  issuedNonces.set(nonce, { walletAddress: walletAddress.toLowerCase(), expiresAt: Date.now() + NONCE_TTL_MS });
+  return nonce;
+}
+
+// Checks the signature like authenticateWallet, plus the message's expiry and nonce like isSignInMessageValid.
+function isValidSignIn(walletAddress: string, message: string, signature: string): boolean {
+  try {
+    if (verifyMessage(message, signature).toLowerCase() !== walletAddress.toLowerCase()) return false;
+  } catch {
+    return false;
+  }
+  const siwe = parseSiweMessage(message);
+  const issued = siwe && issuedNonces.get(siwe.nonce);
+  return (
+    !!issued &&
+    issued.walletAddress === walletAddress.toLowerCase() &&
+    issued.expiresAt > Date.now() &&
+    Date.parse(siwe.expirationTime) > Date.now()
+  );
+}
+
+function respond(config: InternalAxiosRequestConfig, status: number, body: object): AxiosResponse {
+  const response: AxiosResponse = { data: body, status, statusText: String(status), headers: {}, config };
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+  }
+  return response;
+}
+
+export const mockApiAdapter: AxiosAdapter = async (config) => {
+  const method = (config.method ?? "get").toLowerCase();
+  const body = typeof config.data === "string" ? JSON.parse(config.data) : (config.data ?? {});
+  const authorization = config.headers.get("Authorization") as string | undefined;
+
+  switch (`${method} ${config.url}`) {
+    case "get /auth/nonce": {
+      const walletAddress = String(config.params?.walletAddress ?? "");
+      if (!isAddress(walletAddress)) {
+        return respond(config, 400, { success: false, message: "Validation failed" });
+      }
+      return respond(config, 200, { success: true, data: { nonce: issueNonce(walletAddress) } });
+    }
+
+    case "post /auth/verify-signature":
+      return respond(config, 200, {
+        success: true,
+        data: { isValid: isValidSignIn(body.walletAddress, body.message, body.signature) },
+      });
+
+    case "post /auth/login": {
+      const address = String(body.walletAddress ?? "").toLowerCase();
+      if (!isValidSignIn(address, body.message, body.signature)) {
+        return respond(config, 400, { success: false, message: "Invalid wallet signature" });
+      }
+      issuedNonces.delete(parseSiweMessage(body.message)?.nonce ?? "");
+      if (!farmers.has(address)) seedMockFarmer(demoFarmer(address));
+      const farmer = { ...farmers.get(address), lastLogin: new Date().toISOString() };
+      farmers.set(address, farmer);
+      return respond(config, 200, { success: true, message: "Login successful", data: { farmer, token: issueToken(address) } });
+    }
+
+    case "get /auth/me": {
+      const farmer = farmerForToken(authorization);
+      if (!farmer) return respond(config, 401, { message: "Token is not valid" });
+      return respond(config, 200, { success: true, data: { farmer } });
+    }
+
+    default:
+      return respond(config, 404, { success: false, message: `The mock API doesn't implement ${method.toUpperCase()} ${config.url}` });
+  }
+};
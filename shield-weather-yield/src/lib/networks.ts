@@ -0,0 +1,107 @@
+import { DEPLOYMENTS } from "./deployments";
+
+export interface ContractAddresses {
+  FarmerRegistry: string;
+  PremiumPool: string;
+  PayoutManager: string;
+  cUSD: string;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // Empty strings mean the WeatherShield contracts are not deployed there yet.
+  contracts: ContractAddresses;
+  // First block worth scanning for contract events. Null until a deployment
+  // manifest records it; claims.ts then looks it up on chain.
+  deployBlock: number | null;
+}
+
+export const NETWORKS: Record<number, NetworkConfig> = {
+  44787: {
+    chainId: 44787,
+    name: "Celo Alfajores Testnet",
+    rpcUrl: "https://alfajores-forno.celo-testnet.org",
+    explorerUrl: "https://alfajores.celoscan.io",
+    nativeCurrency: { name: "Celo", symbol: "CELO", decimals: 18 },
+    contracts: {
+      FarmerRegistry: "0x805dE0a2FC7e4818D19366f7191B162cB84dE89a",
+      PremiumPool: "0xbfA80344cD3f706C80EF9924560E87E422507867",
+      PayoutManager: "0x43A839630a3dB74dE461628bb5A665A22D4f8b90",
+      cUSD: "0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1",
+    },
+    deployBlock: null,
+  },
+  42220: {
+    chainId: 42220,
+    name: "Celo Mainnet",
+    rpcUrl: "https://forno.celo.org",
+    explorerUrl: "https://celoscan.io",
+    nativeCurrency: { name: "Celo", symbol: "CELO", decimals: 18 },
+    contracts: {
+      FarmerRegistry: "",
+      PremiumPool: "",
+      PayoutManager: "",
+      cUSD: "0x765DE816845861e75A25fCA122bb6898B8B1282a",
+    },
+    deployBlock: null,
+  },
+  31337: {
+    chainId: 31337,
+    name: "Hardhat Local",
+    rpcUrl: "http://127.0.0.1:8545",
+    explorerUrl: "",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    contracts: {
+      FarmerRegistry: "",
+      PremiumPool: "",
+      PayoutManager: "",
+      cUSD: "",
+    },
+    deployBlock: 0,
+  },
+};
+
+// Deployment manifests from the contracts package take precedence over the defaults above.
+for (const manifest of Object.values(DEPLOYMENTS)) {
+  const network = NETWORKS[manifest.chainId];
+  if (!network) continue;
+  const { FarmerRegistry, PremiumPool, PayoutManager } = manifest.contracts;
+  network.contracts = {
+    FarmerRegistry: FarmerRegistry.address,
+    PremiumPool: PremiumPool.address,
+    PayoutManager: PayoutManager.address,
+    cUSD: manifest.cUSD,
+  };
+  network.deployBlock = Math.min(FarmerRegistry.deployBlock, PremiumPool.deployBlock, PayoutManager.deployBlock);
+}
+
+// Network used when no wallet is connected, or the wallet is on an unsupported chain.
+export const DEFAULT_CHAIN_ID = Number(import.meta.env.VITE_CHAIN_ID ?? 44787);
+
+/** True when the chain is known and has the WeatherShield contracts deployed. */
+export function isSupportedChain(chainId: number | null | undefined): boolean {
+  const network = chainId == null ? undefined : NETWORKS[chainId];
+  return !!network?.contracts.FarmerRegistry;
+}
+
+/**
+ * Resolves the network config for a wallet chain, falling back to the
+ * default network when the chain is unsupported or unknown.
+ */
+export function getNetwork(chainId?: number | null): NetworkConfig {
+  if (isSupportedChain(chainId)) return NETWORKS[chainId as number];
+  const fallback = NETWORKS[DEFAULT_CHAIN_ID];
+  if (!fallback) {
+    throw new Error(`VITE_CHAIN_ID ${DEFAULT_CHAIN_ID} is not a configured network.`);
+  }
+  return fallback;
+}
+
+export function getExplorerTxUrl(txHash: string, chainId?: number | null): string | null {
+  const { explorerUrl } = getNetwork(chainId);
+  return explorerUrl ? `${explorerUrl}/tx/${txHash}` : null;
+}
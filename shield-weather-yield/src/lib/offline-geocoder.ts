@@ -0,0 +1,203 @@
+import type { GeocodedPlace, Geocoder } from "./geocoder";
+import { formatCoordinates } from "./coordinates";
+
+// [name, south, west, north, east]. Bounding boxes only, so points near borders can
+// resolve to a neighbour; results are flagged approximate for the farmer to confirm.
+type Box = [string, number, number, number, number];
+
+const COUNTRIES: Box[] = [
+  ["United States", 24.5, -124.8, 49.4, -66.9],
+  ["Canada", 41.7, -141.0, 83.1, -52.6],
+  ["Mexico", 14.5, -118.4, 32.7, -86.7],
+  ["Colombia", -4.2, -79.0, 12.5, -66.9],
+  ["Peru", -18.4, -81.4, 0.0, -68.7],
+  ["Brazil", -33.8, -74.0, 5.3, -34.8],
+  ["Chile", -56.0, -75.7, -17.5, -66.4],
+  ["Argentina", -55.1, -73.6, -21.8, -53.6],
+  ["United Kingdom", 49.9, -8.6, 60.9, 1.8],
+  ["France", 41.3, -5.1, 51.1, 9.6],
+  ["Spain", 36.0, -9.3, 43.8, 3.3],
+  ["Germany", 47.3, 5.9, 55.1, 15.0],
+  ["Italy", 36.6, 6.6, 47.1, 18.5],
+  ["Poland", 49.0, 14.1, 54.8, 24.1],
+  ["Ukraine", 44.4, 22.1, 52.4, 40.2],
+  ["Russia", 41.2, 19.6, 81.9, 180.0],
+  ["Turkey", 35.8, 25.7, 42.1, 44.8],
+  ["Morocco", 27.7, -13.2, 35.9, -1.0],
+  ["Egypt", 22.0, 24.7, 31.7, 36.9],
+  ["Senegal", 12.3, -17.5, 16.7, -11.4],
+  ["Mali", 10.2, -12.2, 25.0, 4.3],
+  ["Niger", 11.7, 0.2, 23.5, 16.0],
+  ["Côte d'Ivoire", 4.4, -8.6, 10.7, -2.5],
+  ["Ghana", 4.7, -3.3, 11.2, 1.2],
+  ["Nigeria", 4.3, 2.7, 13.9, 14.7],
+  ["Ethiopia", 3.4, 33.0, 14.9, 48.0],
+  ["Uganda", -1.5, 29.6, 4.2, 35.0],
+  ["Kenya", -4.7, 33.9, 5.0, 41.9],
+  ["Rwanda", -2.8, 28.9, -1.0, 30.9],
+  ["Tanzania", -11.7, 29.3, -1.0, 40.4],
+  ["DR Congo", -13.5, 12.2, 5.4, 31.3],
+  ["Zambia", -18.1, 22.0, -8.2, 33.7],
+  ["Malawi", -17.1, 32.7, -9.4, 35.9],
+  ["Mozambique", -26.9, 30.2, -10.5, 40.8],
+  ["Zimbabwe", -22.4, 25.2, -15.6, 33.1],
+  ["South Africa", -34.8, 16.5, -22.1, 32.9],
+  ["Madagascar", -25.6, 43.2, -11.9, 50.5],
+  ["Pakistan", 23.7, 60.9, 37.1, 77.8],
+  ["India", 6.7, 68.1, 35.5, 97.4],
+  ["Nepal", 26.3, 80.0, 30.4, 88.2],
+  ["Bangladesh", 20.7, 88.0, 26.6, 92.7],
+  ["Sri Lanka", 5.9, 79.7, 9.8, 81.9],
+  ["China", 18.2, 73.5, 53.6, 134.8],
+  ["Thailand", 5.6, 97.3, 20.5, 105.6],
+  ["Vietnam", 8.6, 102.1, 23.4, 109.5],
+  ["Philippines", 4.6, 116.9, 21.1, 126.6],
+  ["Indonesia", -11.0, 95.0, 6.1, 141.0],
+  ["Japan", 24.2, 122.9, 45.5, 145.8],
+  ["Australia", -43.6, 113.3, -10.7, 153.6],
+  ["New Zealand", -47.3, 166.4, -34.4, 178.6],
+];
+
+// First-level admin regions, keyed by the country name used above.
+const REGIONS: Record<string, Box[]> = {
+  "United States": [
+    ["Alabama", 30.2, -88.5, 35.0, -84.9],
+    ["Alaska", 51.2, -179.2, 71.4, -129.9],
+    ["Arizona", 31.3, -114.8, 37.0, -109.0],
+    ["Arkansas", 33.0, -94.6, 36.5, -89.6],
+    ["California", 32.5, -124.4, 42.0, -114.1],
+    ["Colorado", 37.0, -109.1, 41.0, -102.0],
+    ["Connecticut", 41.0, -73.7, 42.1, -71.8],
+    ["Delaware", 38.4, -75.8, 39.8, -75.0],
+    ["Florida", 24.5, -87.6, 31.0, -80.0],
+    ["Georgia", 30.4, -85.6, 35.0, -80.8],
+    ["Hawaii", 18.9, -160.3, 22.3, -154.8],
+    ["Idaho", 42.0, -117.2, 49.0, -111.0],
+    ["Illinois", 37.0, -91.5, 42.5, -87.5],
+    ["Indiana", 37.8, -88.1, 41.8, -84.8],
+    ["Iowa", 40.4, -96.6, 43.5, -90.1],
+    ["Kansas", 37.0, -102.1, 40.0, -94.6],
+    ["Kentucky", 36.5, -89.6, 39.1, -82.0],
+    ["Louisiana", 29.0, -94.0, 33.0, -89.0],
+    ["Maine", 43.1, -71.1, 47.5, -66.9],
+    ["Maryland", 37.9, -79.5, 39.7, -75.0],
+    ["Massachusetts", 41.2, -73.5, 42.9, -69.9],
+    ["Michigan", 41.7, -90.4, 48.3, -82.4],
+    ["Minnesota", 43.5, -97.2, 49.4, -89.5],
+    ["Mississippi", 30.2, -91.7, 35.0, -88.1],
+    ["Missouri", 36.0, -95.8, 40.6, -89.1],
+    ["Montana", 44.4, -116.1, 49.0, -104.0],
+    ["Nebraska", 40.0, -104.1, 43.0, -95.3],
+    ["Nevada", 35.0, -120.0, 42.0, -114.0],
+    ["New Hampshire", 42.7, -72.6, 45.3, -70.6],
+    ["New Jersey", 38.9, -75.6, 41.4, -73.9],
+    ["New Mexico", 31.3, -109.1, 37.0, -103.0],
+    ["New York", 40.5, -79.8, 45.0, -71.9],
+    ["North Carolina", 33.8, -84.3, 36.6, -75.5],
+    ["North Dakota", 45.9, -104.1, 49.0, -96.6],
+    ["Ohio", 38.4, -84.8, 42.0, -80.5],
+    ["Oklahoma", 33.6, -103.0, 37.0, -94.4],
+    ["Oregon", 42.0, -124.6, 46.3, -116.5],
+    ["Pennsylvania", 39.7, -80.5, 42.3, -74.7],
+    ["Rhode Island", 41.1, -71.9, 42.0, -71.1],
+    ["South Carolina", 32.0, -83.4, 35.2, -78.5],
+    ["South Dakota", 42.5, -104.1, 45.9, -96.4],
+    ["Tennessee", 35.0, -90.3, 36.7, -81.6],
+    ["Texas", 25.8, -106.6, 36.5, -93.5],
+    ["Utah", 37.0, -114.1, 42.0, -109.0],
+    ["Vermont", 42.7, -73.4, 45.0, -71.5],
+    ["Virginia", 36.5, -83.7, 39.5, -75.2],
+    ["Washington", 45.5, -124.8, 49.0, -116.9],
+    ["West Virginia", 37.2, -82.6, 40.6, -77.7],
+    ["Wisconsin", 42.5, -92.9, 47.1, -86.8],
+    ["Wyoming", 41.0, -111.1, 45.0, -104.1],
+  ],
+  India: [
+    ["Punjab", 29.5, 73.9, 32.5, 76.9],
+    ["Haryana", 27.6, 74.5, 30.9, 77.6],
+    ["Uttar Pradesh", 23.9, 77.1, 30.4, 84.6],
+    ["Bihar", 24.3, 83.3, 27.5, 88.3],
+    ["West Bengal", 21.5, 85.8, 27.2, 89.9],
+    ["Rajasthan", 23.1, 69.5, 30.2, 78.3],
+    ["Gujarat", 20.1, 68.2, 24.7, 74.5],
+    ["Madhya Pradesh", 21.1, 74.0, 26.9, 82.8],
+    ["Maharashtra", 15.6, 72.6, 22.0, 80.9],
+    ["Karnataka", 11.6, 74.1, 18.5, 78.6],
+    ["Kerala", 8.2, 74.9, 12.8, 77.4],
+    ["Tamil Nadu", 8.1, 76.2, 13.6, 80.3],
+    ["Andhra Pradesh", 12.6, 76.8, 19.9, 84.8],
+    ["Telangana", 15.8, 77.2, 19.9, 81.3],
+    ["Odisha", 17.8, 81.4, 22.6, 87.5],
+    ["Chhattisgarh", 17.8, 80.2, 24.1, 84.4],
+    ["Jharkhand", 21.9, 83.3, 25.4, 87.9],
+    ["Assam", 24.1, 89.7, 28.0, 96.0],
+  ],
+};
+
+const contains = ([, south, west, north, east]: Box, latitude: number, longitude: number) =>
+  latitude >= south && latitude <= north && longitude >= west && longitude <= east;
+
+const boxArea = ([, south, west, north, east]: Box) => (north - south) * (east - west);
+
+// Overlapping boxes are common along borders; the smallest one is usually the right guess.
+function smallestContaining(boxes: Box[], latitude: number, longitude: number): Box | undefined {
+  return boxes
+    .filter((box) => contains(box, latitude, longitude))
+    .sort((a, b) => boxArea(a) - boxArea(b))[0];
+}
+
+function lookup(latitude: number, longitude: number) {
+  // Regions first: Alaska and Hawaii sit outside the contiguous US box.
+  for (const [country, regions] of Object.entries(REGIONS)) {
+    const region = smallestContaining(regions, latitude, longitude);
+    if (region) return { country, state: region[0] };
+  }
+  const country = smallestContaining(COUNTRIES, latitude, longitude);
+  return country ? { country: country[0], state: "" } : null;
+}
+
+const center = ([, south, west, north, east]: Box): [number, number] => [(south + north) / 2, (west + east) / 2];
+
+/** Bounding-box lookup bundled with the app, for when no geocoding server is reachable. */
+export const offlineGeocoder: Geocoder = {
+  async reverse(latitude, longitude) {
+    const match = lookup(latitude, longitude);
+    if (!match) return null;
+    return {
+      latitude,
+      longitude,
+      address: formatCoordinates(latitude, longitude),
+      city: "",
+      state: match.state,
+      country: match.country,
+      approximate: true,
+    };
+  },
+
+  async search(query) {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const places: GeocodedPlace[] = [];
+    const toPlace = (box: Box, state: string, country: string): GeocodedPlace => {
+      const [latitude, longitude] = center(box);
+      return {
+        latitude,
+        longitude,
+        address: state ? `${state}, ${country}` : country,
+        city: "",
+        state,
+        country,
+        approximate: true,
+      };
+    };
+    for (const [country, regions] of Object.entries(REGIONS)) {
+      for (const region of regions) {
+        if (region[0].toLowerCase().includes(needle)) places.push(toPlace(region, region[0], country));
+      }
+    }
+    for (const country of COUNTRIES) {
+      if (country[0].toLowerCase().includes(needle)) places.push(toPlace(country, "", country[0]));
+    }
+    return places.slice(0, 5);
+  },
+};
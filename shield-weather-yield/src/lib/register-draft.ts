@@ -0,0 +1,42 @@
+// In-progress registration wizards, saved per wallet so a refresh does not lose the farmer's input.
+const DRAFT_KEY_PREFIX = "weathershield.register.draft.";
+// Bump when the registration form shape changes; older drafts are discarded.
+const DRAFT_VERSION = 1;
+
+export interface RegisterDraft<T> {
+  version: number;
+  step: number;
+  values: T;
+  savedAt: string;
+}
+
+const draftKey = (address: string) => `${DRAFT_KEY_PREFIX}${address.toLowerCase()}`;
+
+export function loadRegisterDraft<T>(address: string): RegisterDraft<T> | null {
+  try {
+    const raw = localStorage.getItem(draftKey(address));
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as RegisterDraft<T>;
+    if (draft.version !== DRAFT_VERSION) {
+      localStorage.removeItem(draftKey(address));
+      return null;
+    }
+    return draft;
+  } catch {
+    // Corrupt or unreadable drafts are not worth surfacing; start fresh.
+    return null;
+  }
+}
+
+export function saveRegisterDraft<T>(address: string, step: number, values: T): void {
+  const draft: RegisterDraft<T> = { version: DRAFT_VERSION, step, values, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(draftKey(address), JSON.stringify(draft));
+  } catch {
+    // Storage full or disabled (private browsing); the wizard still works without persistence.
+  }
+}
+
+export function clearRegisterDraft(address: string): void {
+  localStorage.removeItem(draftKey(address));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { SIWE_MESSAGE_TTL_MS, createSiweMessage, formatSiweMessage, getTokenExpiry, parseSiweMessage } from "./siwe";
+
+const ADDRESS = "0x8ba1f109551bd432803012645ac136ddd64dba72";
+
+describe("SIWE messages", () => {
+  it("parses a formatted message back into the same fields", () => {
+    const message = createSiweMessage(ADDRESS, 44787, "a1b2c3d4e5f6a7b8", new Date("2026-05-01T12:00:00.000Z"));
+
+    expect(parseSiweMessage(formatSiweMessage(message))).toEqual(message);
+  });
+
+  it("checksums the address and expires after the TTL", () => {
+    const now = new Date("2026-05-01T12:00:00.000Z");
+    const message = createSiweMessage(ADDRESS, 44787, "a1b2c3d4e5f6a7b8", now);
+
+    expect(message.address).toBe("0x8ba1f109551bD432803012645Ac136ddd64DBA72");
+    expect(message.domain).toBe(window.location.host);
+    expect(Date.parse(message.expirationTime) - now.getTime()).toBe(SIWE_MESSAGE_TTL_MS);
+  });
+
+  it("uses the EIP-4361 layout", () => {
+    const text = formatSiweMessage(
+      createSiweMessage(ADDRESS, 44787, "a1b2c3d4e5f6a7b8", new Date("2026-05-01T12:00:00.000Z"))
+    );
+
+    expect(text.split("\n")).toEqual([
+      `${window.location.host} wants you to sign in with your Ethereum account:`,
+      "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+      "",
+      "Sign in to WeatherShield to manage your crop insurance.",
+      "",
+      `URI: ${window.location.origin}`,
+      "Version: 1",
+      "Chain ID: 44787",
+      "Nonce: a1b2c3d4e5f6a7b8",
+      "Issued At: 2026-05-01T12:00:00.000Z",
+      "Expiration Time: 2026-05-01T12:10:00.000Z",
+    ]);
+  });
+
+  it("returns null for text that isn't a sign-in message", () => {
+    expect(parseSiweMessage("WeatherShield login verification\nWallet: 0x123")).toBeNull();
+  });
+});
+
+describe("getTokenExpiry", () => {
+  it("reads the exp claim", () => {
+    const payload = btoa(JSON.stringify({ farmerId: "abc", exp: 1_800_000_000 }));
+
+    expect(getTokenExpiry(`header.${payload}.signature`)).toEqual(new Date(1_800_000_000_000));
+  });
+
+  it("returns null for a malformed token", () => {
+    expect(getTokenExpiry("not-a-jwt")).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { getAddress } from "ethers";
+
+// Signed sign-in requests are only accepted for this long.
+export const SIWE_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+const STATEMENT = "Sign in to WeatherShield to manage your crop insurance.";
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+/**
+ * Builds a sign-in request for `address` on `chainId`, bound to the current origin.
+ * `nonce` must come from the backend (getNonce), which only accepts nonces it issued.
+ */
+export function createSiweMessage(address: string, chainId: number, nonce: string, now = new Date()): SiweMessage {
+  return {
+    domain: window.location.host,
+    address: getAddress(address),
+    statement: STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: now.toISOString(),
+    expirationTime: new Date(now.getTime() + SIWE_MESSAGE_TTL_MS).toISOString(),
+  };
+}
+
+/** The EIP-4361 plain-text form that the wallet shows and signs. */
+export function formatSiweMessage(message: SiweMessage): string {
+  return [
+    `${message.domain} wants you to sign in with your Ethereum account:`,
+    message.address,
+    "",
+    message.statement,
+    "",
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+    `Expiration Time: ${message.expirationTime}`,
+  ].join("\n");
+}
+
+const FIELD = /^([A-Za-z ]+): (.+)$/;
+
+/** Reads back a message produced by formatSiweMessage; returns null for anything else. */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split("\n");
+  const domain = /^(\S+) wants you to sign in with your Ethereum account:$/.exec(lines[0] ?? "")?.[1];
+  if (!domain || !lines[1]) return null;
+
+  const fields = new Map<string, string>();
+  for (const line of lines.slice(5)) {
+    const match = FIELD.exec(line);
+    if (match) fields.set(match[1], match[2]);
+  }
+  const chainId = Number(fields.get("Chain ID"));
+  if (fields.get("Version") !== "1" || !Number.isInteger(chainId)) return null;
+
+  return {
+    domain,
+    address: lines[1],
+    statement: lines[3] ?? "",
+    uri: fields.get("URI") ?? "",
+    version: "1",
+    chainId,
+    nonce: fields.get("Nonce") ?? "",
+    issuedAt: fields.get("Issued At") ?? "",
+    expirationTime: fields.get("Expiration Time") ?? "",
+  };
+}
+
+/** Expiry of a JWT from its `exp` claim, or null when it can't be read. The signature is not checked. */
+export function getTokenExpiry(token: string): Date | null {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    return typeof exp === "number" ? new Date(exp * 1000) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+import type { DailyWeather } from "./weather-history";
+
+export interface ThresholdBand {
+  min?: number;
+  max?: number;
+}
+
+export interface WeatherThresholds {
+  temperature?: ThresholdBand;
+  rainfall?: ThresholdBand;
+  humidity?: ThresholdBand;
+  windSpeed?: Pick<ThresholdBand, "max">;
+}
+
+export type ThresholdMetric = keyof WeatherThresholds;
+
+// Physically plausible bounds per metric, in the units the form uses (°C, mm/day, %, km/h).
+export const THRESHOLD_LIMITS: Record<ThresholdMetric, { floor: number; ceiling: number; unit: string }> = {
+  temperature: { floor: -60, ceiling: 60, unit: "°C" },
+  rainfall: { floor: 0, ceiling: 500, unit: "mm" },
+  humidity: { floor: 0, ceiling: 100, unit: "%" },
+  windSpeed: { floor: 0, ceiling: 300, unit: "km/h" },
+};
+
+// Same rule as the backend's WeatherData.exceedsThresholds: above max or below min.
+function breaches(band: ThresholdBand | undefined, low: number, high: number): boolean {
+  if (!band) return false;
+  return (band.max != null && high > band.max) || (band.min != null && low < band.min);
+}
+
+/** Which thresholds a day of history would have breached. */
+export function dailyBreaches(day: DailyWeather, thresholds: WeatherThresholds): Record<ThresholdMetric, boolean> {
+  return {
+    temperature: breaches(thresholds.temperature, day.temperatureMin, day.temperatureMax),
+    rainfall: breaches(thresholds.rainfall, day.rainfall, day.rainfall),
+    humidity: breaches(thresholds.humidity, day.humidity, day.humidity),
+    windSpeed: breaches(thresholds.windSpeed, day.windSpeed, day.windSpeed),
+  };
+}
+
+/** Days in `history` on which each threshold, and any threshold, would have triggered. */
+export function countTriggerDays(history: DailyWeather[], thresholds: WeatherThresholds) {
+  const counts = { temperature: 0, rainfall: 0, humidity: 0, windSpeed: 0, any: 0 };
+  for (const day of history) {
+    const breached = dailyBreaches(day, thresholds);
+    (Object.keys(breached) as ThresholdMetric[]).forEach((metric) => {
+      if (breached[metric]) counts[metric]++;
+    });
+    if (Object.values(breached).some(Boolean)) counts.any++;
+  }
+  return counts;
+}
+
+/** True when both sets have the same limits; unset and missing bands compare equal. */
+export function sameThresholds(a: WeatherThresholds = {}, b: WeatherThresholds = {}): boolean {
+  return (Object.keys(THRESHOLD_LIMITS) as ThresholdMetric[]).every((metric) => {
+    const left: ThresholdBand | undefined = a[metric];
+    const right: ThresholdBand | undefined = b[metric];
+    return left?.min === right?.min && left?.max === right?.max;
+  });
+}
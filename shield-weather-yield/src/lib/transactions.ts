@@ -0,0 +1,108 @@
+import { getJsonRpcProvider } from "./celo";
+
+// Submitted contract writes, kept so a reload can pick up receipts that were still pending.
+const STORAGE_KEY = "weathershield.transactions";
+const STORAGE_VERSION = 1;
+// Oldest entries beyond this are dropped; the activity drawer only needs recent history.
+export const MAX_TRANSACTIONS = 25;
+
+export const RECEIPT_POLL_INTERVAL_MS = 4000;
+// Celo mines within seconds; a write with no receipt this long after submission was
+// dropped or replaced (e.g. sped up in the wallet, which gives it a new hash).
+export const RECEIPT_TIMEOUT_MS = 15 * 60 * 1000;
+
+export type TransactionKind = "register" | "updateFarmer" | "approve" | "payPremium";
+
+// "dropped": never mined within RECEIPT_TIMEOUT_MS, so polling gave up.
+export type TransactionStatus = "pending" | "confirmed" | "reverted" | "dropped";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  // Lowercased sender, so the drawer can show only the connected wallet's activity.
+  account: string;
+  kind: TransactionKind;
+  label: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  settledAt?: number;
+  blockNumber?: number;
+}
+
+interface StoredTransactions {
+  version: number;
+  transactions: TrackedTransaction[];
+}
+
+export const TRANSACTION_LABELS: Record<TransactionKind, string> = {
+  register: "Register farm",
+  updateFarmer: "Update farm details",
+  approve: "Approve cUSD",
+  payPremium: "Pay premium",
+};
+
+export class TransactionRevertedError extends Error {
+  hash: string;
+
+  constructor(hash: string, label: string) {
+    super(`${label} was reverted on-chain.`);
+    this.name = "TransactionRevertedError";
+    this.hash = hash;
+  }
+}
+
+export function loadTransactions(): TrackedTransaction[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw) as StoredTransactions;
+    return stored.version === STORAGE_VERSION && Array.isArray(stored.transactions) ? stored.transactions : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTransactions(transactions: TrackedTransaction[]): void {
+  const stored: StoredTransactions = { version: STORAGE_VERSION, transactions };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage is full or disabled; tracking still works for this session.
+  }
+}
+
+/**
+ * Polls the chain's public RPC until the transaction is mined, or reports it
+ * dropped once RECEIPT_TIMEOUT_MS has passed since `submittedAt`. Uses the
+ * read-only provider rather than the wallet so it also works after a reload
+ * or once the wallet has switched chains. Resolves null when aborted.
+ */
+export async function pollReceipt(
+  hash: string,
+  chainId: number,
+  submittedAt: number,
+  signal?: AbortSignal
+): Promise<{ status: Exclude<TransactionStatus, "pending">; blockNumber?: number } | null> {
+  const provider = getJsonRpcProvider(chainId);
+  while (!signal?.aborted) {
+    try {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return { status: receipt.status === 1 ? "confirmed" : "reverted", blockNumber: receipt.blockNumber };
+      }
+    } catch {
+      // A flaky RPC should not mark the transaction as failed; try again on the next tick.
+    }
+    if (Date.now() - submittedAt >= RECEIPT_TIMEOUT_MS) return { status: "dropped" };
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, RECEIPT_POLL_INTERVAL_MS);
+      signal?.addEventListener("abort", wake);
+    });
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+import axios from "axios";
+
+import type { WeatherObservation } from "@/types";
+
+export interface DailyWeather {
+  date: string;
+  temperatureMin: number;
+  temperatureMax: number;
+  // Daily total from Open-Meteo; the day's largest reading from the backend. mm
+  rainfall: number;
+  // Daily mean relative humidity, %
+  humidity: number;
+  // Daily maximum at 10 m, km/h
+  windSpeed: number;
+}
+
+/** One point of a downsampled series, covering `date` through `endDate`. */
+export interface WeatherPeriod extends DailyWeather {
+  endDate: string;
+}
+
+// Open-Meteo's reanalysis archive covers any coordinate without an API key.
+const ARCHIVE_URL = import.meta.env.VITE_OPEN_METEO_ARCHIVE_URL ?? "https://archive-api.open-meteo.com/v1/archive";
+// The archive trails real time by a few days.
+const ARCHIVE_LAG_DAYS = 5;
+
+interface ArchiveResponse {
+  daily: {
+    time: string[];
+    temperature_2m_min: (number | null)[];
+    temperature_2m_max: (number | null)[];
+    precipitation_sum: (number | null)[];
+    relative_humidity_2m_mean: (number | null)[];
+    wind_speed_10m_max: (number | null)[];
+  };
+}
+
+export const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Summed rainfall, to 0.1 mm.
+const round = (value: number) => Number(value.toFixed(1));
+
+/** Archived daily weather from `start` to `end` inclusive, oldest first; days the archive hasn't reached are left out. */
+export async function fetchDailyRange(
+  latitude: number,
+  longitude: number,
+  start: Date,
+  end: Date,
+  signal?: AbortSignal
+): Promise<DailyWeather[]> {
+  const archiveEnd = new Date(Math.min(end.getTime(), Date.now() - ARCHIVE_LAG_DAYS * 86_400_000));
+  if (isoDate(start) > isoDate(archiveEnd)) return [];
+
+  const { data } = await axios.get<ArchiveResponse>(ARCHIVE_URL, {
+    params: {
+      latitude,
+      longitude,
+      start_date: isoDate(start),
+      end_date: isoDate(archiveEnd),
+      daily: "temperature_2m_min,temperature_2m_max,precipitation_sum,relative_humidity_2m_mean,wind_speed_10m_max",
+      timezone: "auto",
+    },
+    timeout: 10000,
+    signal,
+  });
+
+  const { daily } = data;
+  return daily.time
+    .map((date, i) => ({
+      date,
+      temperatureMin: daily.temperature_2m_min[i],
+      temperatureMax: daily.temperature_2m_max[i],
+      rainfall: daily.precipitation_sum[i],
+      humidity: daily.relative_humidity_2m_mean[i],
+      windSpeed: daily.wind_speed_10m_max[i],
+    }))
+    .filter((day): day is DailyWeather => Object.values(day).every((value) => value !== null));
+}
+
+/**
+ * Rolls backend readings up into days (UTC). Rainfall and wind keep the day's
+ * largest reading, matching how the backend checks each reading against thresholds.
+ * Readings are snapshots saved on every /weather/current call, so adding them up
+ * would count the same rain several times; daily totals need a backend aggregate.
+ */
+export function dailyFromObservations(observations: WeatherObservation[]): DailyWeather[] {
+  const days = new Map<string, WeatherObservation[]>();
+  for (const observation of observations) {
+    const date = observation.timestamp.slice(0, 10);
+    days.set(date, [...(days.get(date) ?? []), observation]);
+  }
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, readings]) => ({
+      date,
+      temperatureMin: Math.min(...readings.map((reading) => reading.temperatureMin)),
+      temperatureMax: Math.max(...readings.map((reading) => reading.temperatureMax)),
+      rainfall: Math.max(...readings.map((reading) => reading.rainfall)),
+      humidity: Math.round(readings.reduce((sum, reading) => sum + reading.humidity, 0) / readings.length),
+      windSpeed: Math.max(...readings.map((reading) => reading.windSpeed)),
+    }));
+}
+
+/**
+ * Merges consecutive days so the series has at most `maxPoints` points. Each
+ * period keeps its temperature and wind extremes, so a day beyond a threshold
+ * still shows as one; rainfall is the period's total and humidity, which has
+ * both a floor and a ceiling, is averaged.
+ */
+export function downsampleDaily(history: DailyWeather[], maxPoints: number): WeatherPeriod[] {
+  const size = Math.max(1, Math.ceil(history.length / maxPoints));
+  const periods: WeatherPeriod[] = [];
+  for (let i = 0; i < history.length; i += size) {
+    const days = history.slice(i, i + size);
+    periods.push({
+      date: days[0].date,
+      endDate: days[days.length - 1].date,
+      temperatureMin: Math.min(...days.map((day) => day.temperatureMin)),
+      temperatureMax: Math.max(...days.map((day) => day.temperatureMax)),
+      rainfall: round(days.reduce((sum, day) => sum + day.rainfall, 0)),
+      humidity: Math.round(days.reduce((sum, day) => sum + day.humidity, 0) / days.length),
+      windSpeed: Math.max(...days.map((day) => day.windSpeed)),
+    });
+  }
+  return periods;
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getWeatherRecords } from "./api";
+import { createBackendWeatherProvider } from "./weather-provider";
+import type { WeatherObservation } from "@/types";
+
+vi.mock("./api", () => ({ getCurrentWeather: vi.fn(), getWeatherRecords: vi.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function reading(timestamp: number, rainfall = 0): WeatherObservation {
+  return {
+    timestamp: new Date(timestamp).toISOString(),
+    temperature: 20,
+    temperatureMin: 15,
+    temperatureMax: 25,
+    humidity: 60,
+    rainfall,
+    windSpeed: 10,
+    condition: "clear",
+    description: "",
+    alerts: [],
+  };
+}
+
+// Answers like /weather/history: readings inside the window, newest first, at most `limit`.
+function serve(readings: WeatherObservation[]) {
+  vi.mocked(getWeatherRecords).mockImplementation(async ({ start, end, limit }) =>
+    readings
+      .filter((r) => Date.parse(r.timestamp) >= start.getTime() && Date.parse(r.timestamp) <= end.getTime())
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .slice(0, limit)
+  );
+}
+
+describe("backend weather provider history", () => {
+  const provider = createBackendWeatherProvider();
+
+  beforeEach(() => {
+    vi.mocked(getWeatherRecords).mockReset();
+  });
+
+  it("asks for the whole of the last day", async () => {
+    serve([reading(Date.parse("2026-05-03T18:00:00Z"))]);
+    const day = new Date("2026-05-03T00:00:00Z");
+
+    const history = await provider.history(0, 0, day, day);
+
+    expect(history).toEqual({ days: [expect.objectContaining({ date: "2026-05-03" })], complete: true });
+    expect(vi.mocked(getWeatherRecords).mock.calls[0][0]).toMatchObject({
+      start: new Date("2026-05-03T00:00:00.000Z"),
+      end: new Date("2026-05-03T23:59:59.999Z"),
+    });
+  });
+
+  it("pages back through ranges with more readings than one request returns", async () => {
+    // Every 10 minutes for 30 days: 4320 readings, five pages.
+    const start = Date.parse("2026-04-01T00:00:00Z");
+    serve(Array.from({ length: 30 * 144 }, (_, i) => reading(start + i * 10 * 60 * 1000, i % 144 === 72 ? 4 : 0)));
+
+    const history = await provider.history(0, 0, new Date(start), new Date(start + 29 * 24 * HOUR_MS));
+
+    expect(history.complete).toBe(true);
+    expect(history.days).toHaveLength(30);
+    expect(history.days.every((day) => day.rainfall === 4)).toBe(true);
+    expect(getWeatherRecords).toHaveBeenCalledTimes(5);
+  });
+
+  it("reports a truncated range and drops the partly loaded oldest day", async () => {
+    // Every 30 seconds for 8 days: more than ten pages.
+    const start = Date.parse("2026-04-01T00:00:00Z");
+    serve(Array.from({ length: 8 * 2880 }, (_, i) => reading(start + i * 30 * 1000)));
+
+    const history = await provider.history(0, 0, new Date(start), new Date(start + 7 * 24 * HOUR_MS));
+
+    expect(history.complete).toBe(false);
+    // 10,000 readings reach back into the fifth-newest day, which is left out.
+    expect(history.days.map((day) => day.date)).toEqual(["2026-04-06", "2026-04-07", "2026-04-08"]);
+  });
+});
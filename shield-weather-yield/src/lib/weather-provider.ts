@@ -0,0 +1,172 @@
+import axios from "axios";
+
+import { getCurrentWeather, getWeatherRecords } from "./api";
+import { dailyFromObservations, fetchDailyRange, isoDate, type DailyWeather } from "./weather-history";
+import type { WeatherObservation } from "@/types";
+
+export type WeatherProviderId = "backend" | "open-meteo";
+
+export interface WeatherHistory {
+  // Oldest first. Days without data are left out.
+  days: DailyWeather[];
+  // False when the provider could only return the most recent part of the range.
+  complete: boolean;
+}
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  current(latitude: number, longitude: number, signal?: AbortSignal): Promise<WeatherObservation>;
+  /** Daily weather for the UTC days `start` through `end`. */
+  history(latitude: number, longitude: number, start: Date, end: Date, signal?: AbortSignal): Promise<WeatherHistory>;
+}
+
+// The backend's cap on /weather/history results; it returns the newest readings first.
+const BACKEND_HISTORY_LIMIT = 1000;
+// Pages of readings fetched for one range before the older days are given up on.
+const BACKEND_HISTORY_MAX_PAGES = 10;
+
+// Pages backwards through /weather/history, each window ending just before the previous page's oldest reading.
+async function backendHistory(
+  latitude: number,
+  longitude: number,
+  start: Date,
+  end: Date,
+  signal?: AbortSignal
+): Promise<WeatherHistory> {
+  const from = new Date(`${isoDate(start)}T00:00:00.000Z`);
+  // The backend keeps readings up to and including endDate, so ask for the end of the last day.
+  let to = new Date(`${isoDate(end)}T23:59:59.999Z`);
+  const readings: WeatherObservation[] = [];
+
+  for (let page = 0; page < BACKEND_HISTORY_MAX_PAGES; page++) {
+    const batch = await getWeatherRecords(
+      { latitude, longitude, start: from, end: to, limit: BACKEND_HISTORY_LIMIT },
+      signal
+    );
+    readings.push(...batch);
+    if (batch.length < BACKEND_HISTORY_LIMIT) break;
+    to = new Date(Date.parse(batch[batch.length - 1].timestamp) - 1);
+    // The backend rejects an empty window.
+    if (to <= from) break;
+    if (page === BACKEND_HISTORY_MAX_PAGES - 1) {
+      // The oldest day loaded may be missing its earlier readings; leave it out.
+      return { days: dailyFromObservations(readings).slice(1), complete: false };
+    }
+  }
+  return { days: dailyFromObservations(readings), complete: true };
+}
+
+/** Current conditions from the WeatherShield backend, the same data its payout checks use. */
+export function createBackendWeatherProvider(): WeatherProvider {
+  return {
+    id: "backend",
+    current: (latitude, longitude, signal) => getCurrentWeather({ latitude, longitude }, signal),
+    history: backendHistory,
+  };
+}
+
+interface OpenMeteoForecast {
+  current: {
+    time: number;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    apparent_temperature: number | null;
+    precipitation: number | null;
+    weather_code: number;
+    cloud_cover: number | null;
+    pressure_msl: number | null;
+    wind_speed_10m: number | null;
+    wind_direction_10m: number | null;
+    uv_index: number | null;
+    // Metres
+    visibility: number | null;
+  };
+  daily: {
+    temperature_2m_min: (number | null)[];
+    temperature_2m_max: (number | null)[];
+  };
+}
+
+// WMO weather interpretation codes, mapped onto the lowercase OpenWeather `main`
+// values the backend stores so both providers drive the same icons.
+const WMO_CONDITIONS: [maxCode: number, condition: string, description: string][] = [
+  [0, "clear", "Clear sky"],
+  [1, "clouds", "Mainly clear"],
+  [2, "clouds", "Partly cloudy"],
+  [3, "clouds", "Overcast"],
+  [48, "fog", "Fog"],
+  [57, "drizzle", "Drizzle"],
+  [67, "rain", "Rain"],
+  [77, "snow", "Snow"],
+  [82, "rain", "Rain showers"],
+  [86, "snow", "Snow showers"],
+  [99, "thunderstorm", "Thunderstorm"],
+];
+
+function describeWeatherCode(code: number): { condition: string; description: string } {
+  const match = WMO_CONDITIONS.find(([maxCode]) => code <= maxCode);
+  return match ? { condition: match[1], description: match[2] } : { condition: "unknown", description: "" };
+}
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+/**
+ * Current conditions from the Open-Meteo forecast API, or any server that mimics it,
+ * and history from the Open-Meteo archive. No API key needed.
+ */
+export function createOpenMeteoWeatherProvider(baseUrl: string): WeatherProvider {
+  return {
+    id: "open-meteo",
+    async current(latitude, longitude, signal) {
+      const { data } = await axios.get<OpenMeteoForecast>(baseUrl, {
+        params: {
+          latitude,
+          longitude,
+          current:
+            "temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,cloud_cover," +
+            "pressure_msl,wind_speed_10m,wind_direction_10m,uv_index,visibility",
+          daily: "temperature_2m_min,temperature_2m_max",
+          forecast_days: 1,
+          timezone: "auto",
+          timeformat: "unixtime",
+        },
+        timeout: 10000,
+        signal,
+      });
+
+      const { current, daily } = data;
+      return {
+        timestamp: new Date(current.time * 1000).toISOString(),
+        temperature: current.temperature_2m,
+        temperatureMin: daily.temperature_2m_min[0] ?? current.temperature_2m,
+        temperatureMax: daily.temperature_2m_max[0] ?? current.temperature_2m,
+        feelsLike: current.apparent_temperature ?? undefined,
+        humidity: current.relative_humidity_2m,
+        rainfall: current.precipitation ?? 0,
+        windSpeed: current.wind_speed_10m ?? 0,
+        windDirection: current.wind_direction_10m ?? undefined,
+        pressure: current.pressure_msl == null ? undefined : Math.round(current.pressure_msl),
+        visibility: current.visibility == null ? undefined : round(current.visibility / 1000),
+        uvIndex: current.uv_index == null ? undefined : round(current.uv_index),
+        cloudCover: current.cloud_cover ?? undefined,
+        ...describeWeatherCode(current.weather_code),
+        // Open-Meteo doesn't publish alerts.
+        alerts: [],
+      };
+    },
+
+    history: async (latitude, longitude, start, end, signal) => ({
+      days: await fetchDailyRange(latitude, longitude, start, end, signal),
+      complete: true,
+    }),
+  };
+}
+
+// Set VITE_WEATHER_PROVIDER to "open-meteo" to read weather straight from Open-Meteo instead of the backend.
+const WEATHER_PROVIDER = import.meta.env.VITE_WEATHER_PROVIDER ?? "backend";
+const OPEN_METEO_FORECAST_URL = import.meta.env.VITE_OPEN_METEO_FORECAST_URL ?? "https://api.open-meteo.com/v1/forecast";
+
+export const weatherProvider: WeatherProvider =
+  WEATHER_PROVIDER === "open-meteo"
+    ? createOpenMeteoWeatherProvider(OPEN_METEO_FORECAST_URL)
+    : createBackendWeatherProvider();
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   CloudRain, 
@@ -8,12 +8,12 @@ import {
   MapPin, 
   DollarSign,
   Shield,
-  AlertTriangle,
   CheckCircle,
   Clock,
   TrendingUp,
   BarChart3,
   Settings,
+  LogIn,
   LogOut
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
@@ -21,85 +21,57 @@ import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { Progress } from '../components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
-import { WeatherWidget } from '../components/WeatherWidget';
-import { ClaimsList } from '../components/ClaimsList';
-import { FarmStats } from '../components/FarmStats';
-import { WeatherChart } from '../components/WeatherChart';
+import { useNavigate } from 'react-router-dom';
+import WeatherWidget from '../components/WeatherWidget';
+import ClaimsList from '../components/ClaimsList';
+import FarmStats from '../components/FarmStats';
+import WeatherChart from '../components/WeatherChart';
+import PayPremiumDialog from '../components/PayPremiumDialog';
+import RecentActivity from '../components/RecentActivity';
+import { useWallet } from '../hooks/use-wallet';
+import { useSession } from '../hooks/use-session';
+import { usePremiumBalance } from '../hooks/use-premium-pool';
+import { useFarmer } from '../hooks/use-farmer';
+import { useClaims } from '../hooks/use-claims';
+import { useLiveWeather } from '../hooks/use-live-weather';
+import { useProfile } from '../hooks/use-api';
+import { cropThresholds } from '../lib/crops';
+import { describeContractError } from '../lib/contract-errors';
+import { POLICY_STATUS_LABELS, policyFromPremium } from '../types';
 
 const Dashboard = () => {
-  const [farmer, setFarmer] = useState(null);
-  const [weatherData, setWeatherData] = useState(null);
-  const [claims, setClaims] = useState([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const navigate = useNavigate();
+  const walletAddress = useWallet((state) => state.address);
+  const disconnect = useWallet((state) => state.disconnect);
+  const sessionStatus = useSession((state) => state.status);
+  const signIn = useSession((state) => state.signIn);
+  const signOut = useSession((state) => state.signOut);
+  const premiumQuery = usePremiumBalance();
+  const premiumBalance = premiumQuery.data;
+  const farmerQuery = useFarmer();
+  const claimsQuery = useClaims();
   const [activeTab, setActiveTab] = useState('overview');
 
-  useEffect(() => {
-    // Simulate loading farmer data
-    setTimeout(() => {
-      setFarmer({
-        id: '1',
-        name: 'John Smith',
-        walletAddress: '0x1234...5678',
-        location: {
-          address: '123 Farm Road, Iowa, USA',
-          latitude: 41.8781,
-          longitude: -93.0977
-        },
-        farmDetails: {
-          cropType: 'corn',
-          farmSize: 250,
-          farmSizeUnit: 'acres',
-          plantingDate: '2024-04-15',
-          expectedHarvestDate: '2024-10-15'
-        },
-        insuranceDetails: {
-          isRegistered: true,
-          policyStatus: 'active',
-          premiumAmount: 500,
-          coverageAmount: 50000,
-          nextPremiumDue: '2024-12-15'
-        }
-      });
-      setIsLoading(false);
-    }, 1000);
+  const farmer = farmerQuery.data;
+  const { data: profile } = useProfile();
+  // Thresholds saved with the backend profile once signed in; the crop's recommended ones until then.
+  const thresholds = profile?.weatherThresholds ?? cropThresholds(farmer?.cropType);
+  const weatherQuery = useLiveWeather(farmer?.latitude, farmer?.longitude);
+  const weatherError = weatherQuery.isError && !weatherQuery.data ? "Couldn't load the weather for your farm." : undefined;
+  const policy = premiumBalance === undefined ? undefined : policyFromPremium(premiumBalance);
+  const premiumError = premiumQuery.isError ? describeContractError(premiumQuery.error, 'premium-read') : undefined;
+  const farmError = farmerQuery.isError ? describeContractError(farmerQuery.error, 'farmer-read') : premiumError;
+  const claims = claimsQuery.claims;
+  const payouts = claims.filter((claim) => claim.kind === 'payout');
+  const totalPayouts = payouts.reduce((sum, payout) => sum + payout.amount, 0);
 
-    // Simulate weather data
-    setTimeout(() => {
-      setWeatherData({
-        temperature: { current: 22, min: 18, max: 26, unit: 'celsius' },
-        humidity: { value: 65, unit: 'percent' },
-        rainfall: { value: 5.2, unit: 'mm' },
-        wind: { speed: 12, direction: 180, unit: 'km/h' },
-        pressure: { value: 1013, unit: 'hPa' },
-        uvIndex: { value: 6 },
-        weatherCondition: { main: 'partly_cloudy', description: 'Partly Cloudy' },
-        alerts: []
-      });
-    }, 1500);
+  const shortAddress = walletAddress ? `${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}` : '';
 
-    // Simulate claims data
-    setTimeout(() => {
-      setClaims([
-        {
-          id: '1',
-          claimId: 'WS-2024-001',
-          status: 'paid',
-          amount: 2500,
-          triggerReason: 'Excessive rainfall threshold exceeded',
-          createdAt: '2024-01-15',
-          paidAt: '2024-01-16'
-        },
-        {
-          id: '2',
-          claimId: 'WS-2024-002',
-          status: 'pending',
-          amount: 1800,
-          triggerReason: 'Temperature threshold exceeded',
-          createdAt: '2024-01-20'
-        }
-      ]);
-    }, 2000);
-  }, []);
+  const handleLogout = () => {
+    signOut();
+    disconnect();
+    navigate('/');
+  };
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -123,7 +95,8 @@ const Dashboard = () => {
     }
   };
 
-  if (isLoading) {
+  // RouteGuard only renders the dashboard for registered farmers; this covers a wallet switch.
+  if (farmerQuery.isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <motion.div
@@ -153,15 +126,26 @@ const Dashboard = () => {
               <Shield className="h-8 w-8 text-green-600" />
               <div>
                 <h1 className="text-xl font-semibold text-gray-900">WeatherShield</h1>
-                <p className="text-sm text-gray-500">Welcome back, {farmer?.name}</p>
+                <p className="text-sm text-gray-500">Welcome back, {shortAddress}</p>
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <Button variant="outline" size="sm">
+              <RecentActivity />
+              {sessionStatus !== 'signed-in' && (
+                <Button variant="outline" size="sm" onClick={signIn} disabled={sessionStatus === 'signing-in'}>
+                  {sessionStatus === 'signing-in' ? (
+                    <div className="w-4 h-4 mr-2 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+                  ) : (
+                    <LogIn className="h-4 w-4 mr-2" />
+                  )}
+                  Sign in
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
                 <Settings className="h-4 w-4 mr-2" />
                 Settings
               </Button>
-              <Button variant="outline" size="sm">
+              <Button variant="outline" size="sm" onClick={handleLogout}>
                 <LogOut className="h-4 w-4 mr-2" />
                 Logout
               </Button>
@@ -185,22 +169,24 @@ const Dashboard = () => {
                 <MapPin className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{farmer?.location.address}</div>
+                <div className="text-2xl font-bold">{farmer && `${farmer.latitude.toFixed(4)}, ${farmer.longitude.toFixed(4)}`}</div>
                 <p className="text-xs text-muted-foreground">
-                  {farmer?.farmDetails.farmSize} {farmer?.farmDetails.farmSizeUnit}
+                  Latitude, longitude
                 </p>
               </CardContent>
             </Card>
 
             <Card className="hover:shadow-lg transition-shadow duration-300">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Coverage Amount</CardTitle>
+                <CardTitle className="text-sm font-medium">Payouts Received</CardTitle>
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">${farmer?.insuranceDetails.coverageAmount?.toLocaleString()}</div>
+                <div className="text-2xl font-bold">
+                  {claimsQuery.isLoading ? '...' : `${totalPayouts.toLocaleString()} cUSD`}
+                </div>
                 <p className="text-xs text-muted-foreground">
-                  {farmer?.insuranceDetails.policyStatus}
+                  {claimsQuery.isError ? 'Could not load payout history' : `${payouts.length} payouts`}
                 </p>
               </CardContent>
             </Card>
@@ -211,23 +197,30 @@ const Dashboard = () => {
                 <BarChart3 className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold capitalize">{farmer?.farmDetails.cropType}</div>
+                <div className="text-2xl font-bold capitalize">{farmer?.cropType}</div>
                 <p className="text-xs text-muted-foreground">
-                  Planted: {new Date(farmer?.farmDetails.plantingDate).toLocaleDateString()}
+                  Registered on-chain
                 </p>
               </CardContent>
             </Card>
 
             <Card className="hover:shadow-lg transition-shadow duration-300">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Next Premium</CardTitle>
+                <CardTitle className="text-sm font-medium">Premiums Paid</CardTitle>
                 <Clock className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">${farmer?.insuranceDetails.premiumAmount}</div>
-                <p className="text-xs text-muted-foreground">
-                  Due: {new Date(farmer?.insuranceDetails.nextPremiumDue).toLocaleDateString()}
-                </p>
+                <div className="text-2xl font-bold">
+                  {premiumBalance === undefined ? (premiumError ? '—' : '...') : `${premiumBalance.toLocaleString()} cUSD`}
+                </div>
+                {premiumError ? (
+                  <p className="text-xs text-red-600">{premiumError}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {policy && POLICY_STATUS_LABELS[policy.status]}
+                  </p>
+                )}
+                <PayPremiumDialog />
               </CardContent>
             </Card>
           </motion.div>
@@ -252,26 +245,33 @@ const Dashboard = () => {
                 >
                   <TabsContent value="overview" className="space-y-6">
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                      <WeatherWidget weatherData={weatherData} />
-                      <FarmStats farmer={farmer} claims={claims} />
+                      <WeatherWidget weatherData={weatherQuery.data} error={weatherError} />
+                      <FarmStats farmer={farmer} policy={policy} claims={payouts} error={farmError} />
                     </div>
                   </TabsContent>
 
                   <TabsContent value="weather" className="space-y-6">
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                      <WeatherWidget weatherData={weatherData} detailed />
-                      <WeatherChart />
+                      <WeatherWidget weatherData={weatherQuery.data} error={weatherError} detailed />
+                      <WeatherChart latitude={farmer?.latitude} longitude={farmer?.longitude} thresholds={thresholds} />
                     </div>
                   </TabsContent>
 
                   <TabsContent value="claims" className="space-y-6">
-                    <ClaimsList claims={claims} />
+                    <ClaimsList
+                      claims={claims}
+                      isLoading={claimsQuery.isLoading}
+                      isError={claimsQuery.isError}
+                      hasMore={claimsQuery.hasNextPage}
+                      isLoadingMore={claimsQuery.isFetchingNextPage}
+                      onLoadMore={() => claimsQuery.fetchNextPage()}
+                    />
                   </TabsContent>
 
                   <TabsContent value="analytics" className="space-y-6">
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                      <FarmStats farmer={farmer} claims={claims} detailed />
-                      <WeatherChart />
+                      <FarmStats farmer={farmer} policy={policy} claims={payouts} error={farmError} detailed />
+                      <WeatherChart latitude={farmer?.latitude} longitude={farmer?.longitude} thresholds={thresholds} />
                     </div>
                   </TabsContent>
                 </motion.div>
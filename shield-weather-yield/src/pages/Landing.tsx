@@ -18,9 +18,18 @@ import {
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
+import { useWallet } from '../hooks/use-wallet';
+import { useReturnTo, withReturnTo } from '../hooks/use-return-to';
 
 const Landing = () => {
   const navigate = useNavigate();
+  const walletAddress = useWallet((state) => state.address);
+  // Set when a route guard sent the farmer here; carried through registration.
+  const returnTo = useReturnTo();
+
+  const goToRegister = () => navigate(withReturnTo('/register', returnTo));
+  // The dashboard's guard sends unregistered wallets on to /register.
+  const goToApp = () => (walletAddress ? navigate(returnTo ?? '/dashboard') : goToRegister());
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -105,13 +114,13 @@ const Landing = () => {
             <div className="flex items-center space-x-4">
               <Button 
                 variant="ghost" 
-                onClick={() => navigate('/register')}
+                onClick={goToApp}
                 className="text-gray-700 hover:text-green-600"
               >
-                Sign In
+                {walletAddress ? 'Dashboard' : 'Sign In'}
               </Button>
               <Button 
-                onClick={() => navigate('/register')}
+                onClick={goToRegister}
                 className="bg-green-600 hover:bg-green-700 text-white"
               >
                 Get Started
@@ -160,7 +169,7 @@ const Landing = () => {
             >
               <Button 
                 size="lg" 
-                onClick={() => navigate('/register')}
+                onClick={goToRegister}
                 className="bg-green-600 hover:bg-green-700 text-white px-8 py-4 text-lg"
               >
                 Start Protecting Your Farm
@@ -366,7 +375,7 @@ const Landing = () => {
           >
             <Button 
               size="lg" 
-              onClick={() => navigate('/register')}
+              onClick={goToRegister}
               className="bg-white text-green-600 hover:bg-green-50 px-8 py-4 text-lg"
             >
               Get Started Today
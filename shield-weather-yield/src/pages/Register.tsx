@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { get, useForm, type FieldErrors, type FieldPath } from 'react-hook-form';
+import { formatDistanceToNow } from 'date-fns';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { 
@@ -14,7 +15,14 @@ import {
   Shield,
   ArrowRight,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Thermometer,
+  CloudRain,
+  Droplets,
+  Wind,
+  ExternalLink,
+  XCircle,
+  RotateCcw
 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
@@ -23,8 +31,49 @@ import { Label } from '../components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Textarea } from '../components/ui/textarea';
 import { Badge } from '../components/ui/badge';
-import { MapPicker } from '../components/MapPicker';
-import { WalletConnect } from '../components/WalletConnect';
+import MapPicker, { type MapLocation } from '../components/MapPicker';
+import WalletConnect from '../components/WalletConnect';
+import NetworkGuard from '../components/NetworkGuard';
+import ThresholdPreview from '../components/ThresholdPreview';
+import CropSelect from '../components/CropSelect';
+import { useWallet } from '../hooks/use-wallet';
+import { useTransactions } from '../hooks/use-transactions';
+import { useSession } from '../hooks/use-session';
+import { useReturnTo } from '../hooks/use-return-to';
+import { getFarmerRegistry } from '../lib/contracts';
+import { updateWeatherThresholds } from '../lib/api';
+import { ApiError } from '../lib/api-client';
+import { getExplorerTxUrl } from '../lib/networks';
+import { describeContractError } from '../lib/contract-errors';
+import { toast } from '../components/ui/sonner';
+import { geodesicArea, toAreaUnit, type BoundaryPoint, type FarmBoundary } from '../lib/boundary';
+import { THRESHOLD_LIMITS, sameThresholds, type ThresholdMetric } from '../lib/thresholds';
+import { cropThresholds, getCropType } from '../lib/crops';
+import {
+  clearRegisterDraft,
+  loadRegisterDraft,
+  saveRegisterDraft,
+  type RegisterDraft
+} from '../lib/register-draft';
+
+const thresholdLimit = (metric: ThresholdMetric, label: string) => {
+  const { floor, ceiling, unit } = THRESHOLD_LIMITS[metric];
+  return z
+    .number()
+    .min(floor, `${label} cannot be below ${floor} ${unit}`)
+    .max(ceiling, `${label} cannot be above ${ceiling} ${unit}`);
+};
+
+const thresholdBand = (metric: ThresholdMetric, label: string) =>
+  z
+    .object({
+      min: thresholdLimit(metric, label).optional(),
+      max: thresholdLimit(metric, label).optional()
+    })
+    .refine((band) => band.min == null || band.max == null || band.min < band.max, {
+      message: 'Maximum must be above the minimum',
+      path: ['max']
+    });
 
 const registerSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -32,8 +81,8 @@ const registerSchema = z.object({
   phone: z.string().min(10, 'Phone number must be at least 10 digits'),
   farmDetails: z.object({
     cropType: z.string().min(1, 'Please select a crop type'),
-    farmSize: z.number().min(0.1, 'Farm size must be at least 0.1'),
-    farmSizeUnit: z.enum(['acres', 'hectares']),
+    farmSize: z.number({ invalid_type_error: 'Enter your farm size' }).min(0.1, 'Farm size must be at least 0.1'),
+    farmSizeUnit: z.enum(['acres', 'hectares'], { required_error: 'Select a unit' }),
     plantingDate: z.string().min(1, 'Please select planting date'),
     expectedHarvestDate: z.string().min(1, 'Please select expected harvest date'),
     description: z.string().optional()
@@ -45,67 +94,192 @@ const registerSchema = z.object({
     city: z.string().min(2, 'City must be at least 2 characters'),
     state: z.string().min(2, 'State must be at least 2 characters'),
     country: z.string().min(2, 'Country must be at least 2 characters')
-  }),
+  }, { required_error: 'Pick your farm location on the map' }),
+  // Optional farm outline as [latitude, longitude] vertices
+  boundary: z.array(z.tuple([z.number(), z.number()])).optional(),
   weatherThresholds: z.object({
-    temperature: z.object({
-      min: z.number().optional(),
-      max: z.number().optional()
-    }).optional(),
-    rainfall: z.object({
-      min: z.number().min(0).optional(),
-      max: z.number().min(0).optional()
-    }).optional(),
-    humidity: z.object({
-      min: z.number().min(0).max(100).optional(),
-      max: z.number().min(0).max(100).optional()
-    }).optional(),
+    temperature: thresholdBand('temperature', 'Temperature').optional(),
+    rainfall: thresholdBand('rainfall', 'Rainfall')
+      .refine((band) => band.min == null || band.min > 0, {
+        message: 'A minimum of 0 mm can never trigger',
+        path: ['min']
+      })
+      .optional(),
+    humidity: thresholdBand('humidity', 'Humidity')
+      .refine((band) => band.min == null || band.min > 0, {
+        message: 'A minimum of 0% can never trigger',
+        path: ['min']
+      })
+      .refine((band) => band.max == null || band.max < 100, {
+        message: 'A maximum of 100% can never trigger',
+        path: ['max']
+      })
+      .optional(),
     windSpeed: z.object({
-      max: z.number().min(0).optional()
+      max: thresholdLimit('windSpeed', 'Wind speed').gt(0, 'Wind speed limit must be above 0 km/h').optional()
     }).optional()
   }).optional()
 });
 
 type RegisterFormData = z.infer<typeof registerSchema>;
 
-const cropTypes = [
-  { value: 'wheat', label: 'Wheat', icon: '🌾' },
-  { value: 'rice', label: 'Rice', icon: '🌾' },
-  { value: 'corn', label: 'Corn', icon: '🌽' },
-  { value: 'soybean', label: 'Soybean', icon: '🫘' },
-  { value: 'cotton', label: 'Cotton', icon: '🌿' },
-  { value: 'sugarcane', label: 'Sugarcane', icon: '🎋' },
-  { value: 'potato', label: 'Potato', icon: '🥔' },
-  { value: 'tomato', label: 'Tomato', icon: '🍅' },
-  { value: 'other', label: 'Other', icon: '🌱' }
+interface WizardStep {
+  number: number;
+  title: string;
+  description: string;
+  // Schema fields entered on this step; only these are validated before moving on.
+  fields: FieldPath<RegisterFormData>[];
+}
+
+const steps: WizardStep[] = [
+  { number: 1, title: 'Connect Wallet', description: 'Connect your Celo wallet to get started', fields: [] },
+  {
+    number: 2,
+    title: 'Farm Details',
+    description: 'Tell us about your farm and crops',
+    fields: ['name', 'email', 'phone', 'farmDetails']
+  },
+  { number: 3, title: 'Location', description: 'Pin your farm location on the map', fields: ['location'] },
+  {
+    number: 4,
+    title: 'Weather Thresholds',
+    description: 'Set your weather protection parameters',
+    fields: ['weatherThresholds']
+  },
+  { number: 5, title: 'Review & Submit', description: 'Review your information and submit', fields: [] }
 ];
 
+// Blank optional number inputs mean "not set", not NaN.
+const optionalNumber = {
+  setValueAs: (value: string | number) => (value === '' || value == null ? undefined : Number(value))
+};
+
+type RegistrationTx = {
+  status: 'idle' | 'signing' | 'pending' | 'confirmed' | 'failed';
+  hash?: string;
+  error?: string;
+};
+
+/**
+ * Saves the off-chain profile (contact details, farm details and thresholds) once the
+ * on-chain registration has confirmed. It runs outside the page because RouteGuard
+ * moves the farmer to the dashboard as soon as the registration shows up.
+ */
+async function saveFarmProfile(data: RegisterFormData): Promise<void> {
+  const id = toast.loading('Saving your farm profile', {
+    description: 'Sign the WeatherShield sign-in request in your wallet...'
+  });
+  try {
+    const { latitude, longitude, address, city, state, country } = data.location;
+    const { cropType, farmSize, farmSizeUnit, plantingDate, expectedHarvestDate } = data.farmDetails;
+    // A retry after the sign-up went through only has the thresholds left to save.
+    if (useSession.getState().status !== 'signed-in') {
+      await useSession.getState().signUp({
+        name: data.name,
+        email: data.email,
+        phone: data.phone,
+        location: { latitude, longitude, address, city, state, country },
+        farmDetails: { cropType, farmSize, farmSizeUnit, plantingDate, expectedHarvestDate }
+      });
+    }
+    if (data.weatherThresholds) await updateWeatherThresholds(data.weatherThresholds);
+    toast.success('Farm profile saved', { id, description: 'Your weather thresholds are now active.' });
+  } catch (error) {
+    toast.error("Your farm is registered, but its profile wasn't saved", {
+      id,
+      description: error instanceof ApiError ? error.message : useSession.getState().error || 'Please try again.',
+      action: { label: 'Retry', onClick: () => void saveFarmProfile(data) }
+    });
+  }
+}
+
 const Register = () => {
   const navigate = useNavigate();
+  const returnTo = useReturnTo();
   const [currentStep, setCurrentStep] = useState(1);
-  const [isWalletConnected, setIsWalletConnected] = useState(false);
-  const [walletAddress, setWalletAddress] = useState('');
+  // Highest step reached; earlier steps count as completed in the progress header.
+  const [furthestStep, setFurthestStep] = useState(1);
+  const [showWalletRequired, setShowWalletRequired] = useState(false);
+  const walletAddress = useWallet((state) => state.address);
+  const isWalletConnected = useWallet((state) => state.status === 'connected');
+  const signer = useWallet((state) => state.signer);
+  const chainId = useWallet((state) => state.chainId);
+  const trackTransaction = useTransactions((state) => state.track);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [registrationTx, setRegistrationTx] = useState<RegistrationTx>({ status: 'idle' });
 
   const {
     register,
     handleSubmit,
     watch,
     setValue,
-    formState: { errors, isValid }
+    getValues,
+    reset,
+    trigger,
+    formState: { errors }
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
     mode: 'onChange'
   });
 
+  // Saved wizard found for this wallet, awaiting the farmer's continue / start over choice.
+  const [pendingDraft, setPendingDraft] = useState<RegisterDraft<Partial<RegisterFormData>> | null>(null);
+  // Wallet whose draft the form is being saved to; null until any pending draft is resolved.
+  const [draftOwner, setDraftOwner] = useState<string | null>(null);
+  // Wallet the form's answers were entered for.
+  const formOwner = useRef(walletAddress);
+
+  useEffect(() => {
+    if (!walletAddress || draftOwner === walletAddress) return;
+    // Another account starts from a blank wizard, so the previous wallet's answers are never saved as its draft.
+    if (formOwner.current && formOwner.current !== walletAddress) {
+      reset();
+      setCurrentStep(1);
+      setFurthestStep(1);
+    }
+    formOwner.current = walletAddress;
+    const draft = loadRegisterDraft<Partial<RegisterFormData>>(walletAddress);
+    setPendingDraft(draft);
+    setDraftOwner(draft ? null : walletAddress);
+  }, [walletAddress, draftOwner, reset]);
+
+  useEffect(() => {
+    // Nothing worth saving until the farmer is past the wallet step.
+    if (!walletAddress || draftOwner !== walletAddress || currentStep === 1) return;
+    saveRegisterDraft(walletAddress, currentStep, getValues());
+    const subscription = watch((values) => saveRegisterDraft(walletAddress, currentStep, values));
+    return () => subscription.unsubscribe();
+  }, [walletAddress, draftOwner, currentStep, watch, getValues]);
+
+  const resumeDraft = () => {
+    if (!pendingDraft || !walletAddress) return;
+    reset(pendingDraft.values);
+    setCurrentStep(pendingDraft.step);
+    setFurthestStep(pendingDraft.step);
+    setPendingDraft(null);
+    setDraftOwner(walletAddress);
+  };
+
+  const discardDraft = () => {
+    if (!walletAddress) return;
+    clearRegisterDraft(walletAddress);
+    reset();
+    setPendingDraft(null);
+    setDraftOwner(walletAddress);
+  };
+
   const watchedLocation = watch('location');
+  // zod infers tuples loosely without strict mode
+  const watchedBoundary = watch('boundary') as BoundaryPoint[] | undefined;
+  const watchedSizeUnit = watch('farmDetails.farmSizeUnit');
 
-  const steps = [
-    { number: 1, title: 'Connect Wallet', description: 'Connect your Celo wallet to get started' },
-    { number: 2, title: 'Farm Details', description: 'Tell us about your farm and crops' },
-    { number: 3, title: 'Location', description: 'Pin your farm location on the map' },
-    { number: 4, title: 'Weather Thresholds', description: 'Set your weather protection parameters' },
-    { number: 5, title: 'Review & Submit', description: 'Review your information and submit' }
-  ];
+  // A drawn boundary is the source of truth for farm size, in whichever unit is selected.
+  useEffect(() => {
+    if (!watchedBoundary || watchedBoundary.length < 3) return;
+    setValue('farmDetails.farmSize', toAreaUnit(geodesicArea(watchedBoundary), watchedSizeUnit ?? 'acres'), {
+      shouldValidate: true
+    });
+  }, [watchedBoundary, watchedSizeUnit, setValue]);
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -129,34 +303,89 @@ const Register = () => {
     }
   };
 
-  const handleLocationSelect = (location: any) => {
-    setValue('location', location);
+  const handleLocationSelect = (location: MapLocation) => {
+    setValue('location', location, { shouldValidate: !location.approximate });
+  };
+
+  // Crop defaults only replace thresholds the farmer has not customised.
+  const handleCropChange = (cropType: string) => {
+    const previousDefaults = cropThresholds(getValues('farmDetails.cropType'));
+    setValue('farmDetails.cropType', cropType, { shouldValidate: true });
+    if (sameThresholds(getValues('weatherThresholds'), previousDefaults)) {
+      setValue('weatherThresholds', cropThresholds(cropType) ?? {});
+    }
+  };
+
+  const resetThresholds = () => {
+    setValue('weatherThresholds', cropThresholds(getValues('farmDetails.cropType')) ?? {}, { shouldValidate: true });
+  };
+
+  const handleBoundaryChange = (boundary: FarmBoundary | null) => {
+    setValue('boundary', boundary?.points);
+    if (boundary && !watchedSizeUnit) {
+      setValue('farmDetails.farmSizeUnit', 'acres');
+    }
   };
 
   const onSubmit = async (data: RegisterFormData) => {
+    if (!signer || !walletAddress) {
+      setRegistrationTx({ status: 'failed', error: 'Connect your wallet before registering.' });
+      return;
+    }
+
     setIsSubmitting(true);
+    setRegistrationTx({ status: 'signing' });
+    let hash: string | undefined;
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      console.log('Registration data:', data);
-      navigate('/dashboard');
+      const registry = getFarmerRegistry(signer, chainId);
+      const tx = await registry.registerFarmer(
+        data.location.latitude.toString(),
+        data.location.longitude.toString(),
+        data.farmDetails.cropType
+      );
+      hash = tx.hash;
+      setRegistrationTx({ status: 'pending', hash });
+      await trackTransaction(tx, 'register');
+      setRegistrationTx({ status: 'confirmed', hash });
+      clearRegisterDraft(walletAddress);
+      void saveFarmProfile(data);
+      navigate(returnTo ?? '/dashboard');
     } catch (error) {
       console.error('Registration error:', error);
+      setRegistrationTx({ status: 'failed', hash, error: describeContractError(error, 'registration') });
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const nextStep = () => {
-    if (currentStep < steps.length) {
-      setCurrentStep(currentStep + 1);
+  const stepHasErrors = (step: WizardStep) =>
+    step.number === 1 ? !isWalletConnected : step.fields.some((field) => get(errors, field));
+
+  const validateStep = async (stepNumber: number) => {
+    if (stepNumber === 1) {
+      setShowWalletRequired(!isWalletConnected);
+      return isWalletConnected;
     }
+    const { fields } = steps[stepNumber - 1];
+    return fields.length === 0 || trigger(fields, { shouldFocus: true });
   };
 
-  const prevStep = () => {
-    if (currentStep > 1) {
-      setCurrentStep(currentStep - 1);
-    }
+  // Moving forward validates the current step first; going back is always allowed.
+  const goToStep = async (target: number) => {
+    if (target < 1 || target > steps.length || target === currentStep) return;
+    if (target > currentStep && !(await validateStep(currentStep))) return;
+    setCurrentStep(target);
+    setFurthestStep((furthest) => Math.max(furthest, target));
+  };
+
+  const nextStep = () => goToStep(currentStep + 1);
+
+  const prevStep = () => goToStep(currentStep - 1);
+
+  // Submitting with errors jumps to the first step that has them.
+  const onInvalid = (formErrors: FieldErrors<RegisterFormData>) => {
+    const firstInvalid = steps.find((step) => step.fields.some((field) => get(formErrors, field)));
+    if (firstInvalid) setCurrentStep(firstInvalid.number);
   };
 
   const renderStepContent = () => {
@@ -175,12 +404,10 @@ const Register = () => {
                 Connect your Celo wallet to register for WeatherShield insurance
           </p>
         </div>
-            <WalletConnect 
-              onConnect={(address) => {
-                setWalletAddress(address);
-                setIsWalletConnected(true);
-              }}
-            />
+            <WalletConnect />
+            {showWalletRequired && !isWalletConnected && (
+              <p className="text-sm text-red-600 text-center">Connect a wallet to continue.</p>
+            )}
           </motion.div>
         );
 
@@ -238,21 +465,7 @@ const Register = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="cropType">Crop Type</Label>
-                  <Select onValueChange={(value) => setValue('farmDetails.cropType', value)}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select crop type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {cropTypes.map((crop) => (
-                        <SelectItem key={crop.value} value={crop.value}>
-                          <span className="flex items-center">
-                            <span className="mr-2">{crop.icon}</span>
-                            {crop.label}
-                          </span>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <CropSelect id="cropType" value={watch('farmDetails.cropType')} onValueChange={handleCropChange} />
                   {errors.farmDetails?.cropType && (
                     <p className="text-sm text-red-600 mt-1">{errors.farmDetails.cropType.message}</p>
                   )}
@@ -267,10 +480,18 @@ const Register = () => {
                       {...register('farmDetails.farmSize', { valueAsNumber: true })}
                       placeholder="0.0"
                     />
+                    {errors.farmDetails?.farmSize && (
+                      <p className="text-sm text-red-600 mt-1">{errors.farmDetails.farmSize.message}</p>
+                    )}
           </div>
                   <div>
                     <Label htmlFor="farmSizeUnit">Unit</Label>
-                    <Select onValueChange={(value) => setValue('farmDetails.farmSizeUnit', value as 'acres' | 'hectares')}>
+                    <Select
+                      value={watchedSizeUnit}
+                      onValueChange={(value) =>
+                        setValue('farmDetails.farmSizeUnit', value as 'acres' | 'hectares', { shouldValidate: true })
+                      }
+                    >
                       <SelectTrigger>
                         <SelectValue placeholder="Unit" />
                 </SelectTrigger>
@@ -279,6 +500,9 @@ const Register = () => {
                         <SelectItem value="hectares">Hectares</SelectItem>
                 </SelectContent>
               </Select>
+                    {errors.farmDetails?.farmSizeUnit && (
+                      <p className="text-sm text-red-600 mt-1">{errors.farmDetails.farmSizeUnit.message}</p>
+                    )}
             </div>
                 </div>
               </div>
@@ -333,9 +557,15 @@ const Register = () => {
                 Pin your farm location on the map for accurate weather monitoring
               </p>
             </div>
-            <div className="h-96 rounded-lg overflow-hidden border">
-              <MapPicker onLocationSelect={handleLocationSelect} />
+            <div className="h-[34rem] rounded-lg overflow-hidden border">
+              <MapPicker
+                onLocationSelect={handleLocationSelect}
+                initialLocation={watchedLocation}
+                onBoundaryChange={handleBoundaryChange}
+                initialBoundary={watchedBoundary}
+              />
             </div>
+            {errors.location?.message && <p className="text-sm text-red-600">{errors.location.message}</p>}
             {watchedLocation && (
               <div className="bg-green-50 p-4 rounded-lg">
                 <div className="flex items-center text-green-800">
@@ -343,6 +573,36 @@ const Register = () => {
                   <span className="font-medium">Location Selected</span>
                 </div>
                 <p className="text-green-700 mt-1">{watchedLocation.address}</p>
+                {watchedBoundary && (
+                  <p className="text-green-700 text-sm">
+                    Farm size from boundary: {watch('farmDetails.farmSize')} {watchedSizeUnit}
+                  </p>
+                )}
+              </div>
+            )}
+            {watchedLocation && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="locationCity">City / Village</Label>
+                  <Input id="locationCity" {...register('location.city')} placeholder="Nearest town or village" />
+                  {errors.location?.city && (
+                    <p className="text-sm text-red-600 mt-1">{errors.location.city.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="locationState">State / Region</Label>
+                  <Input id="locationState" {...register('location.state')} placeholder="State or region" />
+                  {errors.location?.state && (
+                    <p className="text-sm text-red-600 mt-1">{errors.location.state.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="locationCountry">Country</Label>
+                  <Input id="locationCountry" {...register('location.country')} placeholder="Country" />
+                  {errors.location?.country && (
+                    <p className="text-sm text-red-600 mt-1">{errors.location.country.message}</p>
+                  )}
+                </div>
               </div>
             )}
           </motion.div>
@@ -361,6 +621,11 @@ const Register = () => {
               <p className="text-gray-600">
                 Set the weather conditions that would damage your crops
               </p>
+              {cropThresholds(watch('farmDetails.cropType')) && (
+                <Button type="button" variant="link" onClick={resetThresholds} className="text-green-700">
+                  Reset to recommended values for {getCropType(watch('farmDetails.cropType'))?.label}
+                </Button>
+              )}
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <Card>
@@ -377,18 +642,24 @@ const Register = () => {
                       <Input
                         id="tempMin"
                         type="number"
-                        {...register('weatherThresholds.temperature.min', { valueAsNumber: true })}
+                        {...register('weatherThresholds.temperature.min', { ...optionalNumber, deps: 'weatherThresholds.temperature.max' })}
                         placeholder="0"
                       />
+                      {errors.weatherThresholds?.temperature?.min && (
+                        <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.temperature.min.message}</p>
+                      )}
                     </div>
                     <div>
                       <Label htmlFor="tempMax">Max Temperature (°C)</Label>
                       <Input
                         id="tempMax"
                         type="number"
-                        {...register('weatherThresholds.temperature.max', { valueAsNumber: true })}
+                        {...register('weatherThresholds.temperature.max', { ...optionalNumber, deps: 'weatherThresholds.temperature.min' })}
                         placeholder="35"
                       />
+                      {errors.weatherThresholds?.temperature?.max && (
+                        <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.temperature.max.message}</p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -408,18 +679,24 @@ const Register = () => {
                       <Input
                         id="rainMin"
                         type="number"
-                        {...register('weatherThresholds.rainfall.min', { valueAsNumber: true })}
+                        {...register('weatherThresholds.rainfall.min', { ...optionalNumber, deps: 'weatherThresholds.rainfall.max' })}
                         placeholder="0"
                       />
+                      {errors.weatherThresholds?.rainfall?.min && (
+                        <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.rainfall.min.message}</p>
+                      )}
                     </div>
                     <div>
                       <Label htmlFor="rainMax">Max Rainfall (mm)</Label>
                       <Input
                         id="rainMax"
                         type="number"
-                        {...register('weatherThresholds.rainfall.max', { valueAsNumber: true })}
+                        {...register('weatherThresholds.rainfall.max', { ...optionalNumber, deps: 'weatherThresholds.rainfall.min' })}
                         placeholder="50"
                       />
+                      {errors.weatherThresholds?.rainfall?.max && (
+                        <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.rainfall.max.message}</p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -439,18 +716,24 @@ const Register = () => {
                       <Input
                         id="humidityMin"
                         type="number"
-                        {...register('weatherThresholds.humidity.min', { valueAsNumber: true })}
+                        {...register('weatherThresholds.humidity.min', { ...optionalNumber, deps: 'weatherThresholds.humidity.max' })}
                         placeholder="30"
                       />
+                      {errors.weatherThresholds?.humidity?.min && (
+                        <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.humidity.min.message}</p>
+                      )}
                     </div>
                     <div>
                       <Label htmlFor="humidityMax">Max Humidity (%)</Label>
                       <Input
                         id="humidityMax"
                         type="number"
-                        {...register('weatherThresholds.humidity.max', { valueAsNumber: true })}
+                        {...register('weatherThresholds.humidity.max', { ...optionalNumber, deps: 'weatherThresholds.humidity.min' })}
                         placeholder="90"
                       />
+                      {errors.weatherThresholds?.humidity?.max && (
+                        <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.humidity.max.message}</p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -469,13 +752,21 @@ const Register = () => {
                     <Input
                       id="windMax"
                       type="number"
-                      {...register('weatherThresholds.windSpeed.max', { valueAsNumber: true })}
+                      {...register('weatherThresholds.windSpeed.max', optionalNumber)}
                       placeholder="50"
                     />
+                    {errors.weatherThresholds?.windSpeed?.max && (
+                      <p className="text-sm text-red-600 mt-1">{errors.weatherThresholds.windSpeed.max.message}</p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             </div>
+            <ThresholdPreview
+              latitude={watchedLocation?.latitude}
+              longitude={watchedLocation?.longitude}
+              thresholds={watch('weatherThresholds') ?? {}}
+            />
           </motion.div>
         );
 
@@ -511,10 +802,51 @@ const Register = () => {
                       <p className="text-sm text-gray-600">Crop: {watch('farmDetails.cropType')}</p>
                       <p className="text-sm text-gray-600">Size: {watch('farmDetails.farmSize')} {watch('farmDetails.farmSizeUnit')}</p>
                       <p className="text-sm text-gray-600">Location: {watch('location.address')}</p>
+                      {watchedBoundary && (
+                        <p className="text-sm text-gray-600">Boundary: {watchedBoundary.length}-point outline</p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
               </Card>
+
+              {registrationTx.status !== 'idle' && (
+                <div className={`p-4 rounded-lg border ${
+                  registrationTx.status === 'failed'
+                    ? 'bg-red-50 border-red-200'
+                    : 'bg-green-50 border-green-200'
+                }`}>
+                  <div className="flex items-center">
+                    {registrationTx.status === 'failed' ? (
+                      <XCircle className="h-5 w-5 mr-2 text-red-600" />
+                    ) : registrationTx.status === 'confirmed' ? (
+                      <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
+                    ) : (
+                      <div className="w-5 h-5 mr-2 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+                    )}
+                    <span className="font-medium text-gray-900">
+                      {registrationTx.status === 'signing' && 'Confirm the transaction in your wallet...'}
+                      {registrationTx.status === 'pending' && 'Registering on Celo, waiting for confirmation...'}
+                      {registrationTx.status === 'confirmed' && 'Registration confirmed!'}
+                      {registrationTx.status === 'failed' && 'Registration failed'}
+                    </span>
+                  </div>
+                  {registrationTx.error && (
+                    <p className="text-sm text-red-700 mt-2">{registrationTx.error}</p>
+                  )}
+                  {registrationTx.hash && (
+                    <a
+                      href={getExplorerTxUrl(registrationTx.hash, chainId) ?? undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-sm text-green-700 hover:text-green-800 mt-2 font-mono break-all"
+                    >
+                      {registrationTx.hash}
+                      <ExternalLink className="h-4 w-4 ml-1 flex-shrink-0" />
+                    </a>
+                  )}
+                </div>
+              )}
             </div>
           </motion.div>
         );
@@ -548,42 +880,85 @@ const Register = () => {
           {/* Progress Steps */}
           <motion.div variants={itemVariants}>
             <div className="flex items-center justify-between mb-8">
-              {steps.map((step, index) => (
+              {steps.map((step, index) => {
+                const isReachable = step.number <= furthestStep;
+                const isCompleted = isReachable && step.number !== currentStep;
+                const hasErrors = isCompleted && stepHasErrors(step);
+                return (
                 <div key={step.number} className="flex items-center">
-                  <div className={`flex items-center justify-center w-10 h-10 rounded-full border-2 ${
-                    currentStep >= step.number 
-                      ? 'bg-green-600 border-green-600 text-white' 
-                      : 'border-gray-300 text-gray-500'
-                  }`}>
-                    {currentStep > step.number ? (
+                  <button
+                    type="button"
+                    onClick={() => goToStep(step.number)}
+                    disabled={!isReachable || pendingDraft !== null}
+                    aria-label={hasErrors ? `${step.title} (has errors)` : step.title}
+                    className={`flex items-center justify-center w-10 h-10 rounded-full border-2 disabled:cursor-default ${
+                      hasErrors
+                        ? 'bg-red-50 border-red-500 text-red-600'
+                        : currentStep >= step.number || isCompleted
+                          ? 'bg-green-600 border-green-600 text-white'
+                          : 'border-gray-300 text-gray-500'
+                    }`}
+                  >
+                    {hasErrors ? (
+                      <AlertCircle className="h-5 w-5" />
+                    ) : isCompleted ? (
                       <CheckCircle className="h-5 w-5" />
                     ) : (
                       <span className="text-sm font-medium">{step.number}</span>
                     )}
-                  </div>
+                  </button>
                   <div className="ml-3 hidden sm:block">
                     <p className={`text-sm font-medium ${
-                      currentStep >= step.number ? 'text-green-600' : 'text-gray-500'
+                      hasErrors ? 'text-red-600' : isReachable ? 'text-green-600' : 'text-gray-500'
                     }`}>
                       {step.title}
                     </p>
-                    <p className="text-xs text-gray-500">{step.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {hasErrors ? 'Needs attention' : step.description}
+                    </p>
                   </div>
                   {index < steps.length - 1 && (
                     <div className={`hidden sm:block w-16 h-0.5 mx-4 ${
-                      currentStep > step.number ? 'bg-green-600' : 'bg-gray-300'
+                      furthestStep > step.number ? 'bg-green-600' : 'bg-gray-300'
                     }`} />
                   )}
                 </div>
-              ))}
+                );
+              })}
             </div>
           </motion.div>
 
+          {/* Resume Prompt */}
+          {pendingDraft && (
+            <motion.div variants={itemVariants}>
+              <Card className="border-green-200 bg-green-50">
+                <CardHeader>
+                  <CardTitle className="flex items-center text-green-800">
+                    <RotateCcw className="h-5 w-5 mr-2" />
+                    Continue where you left off?
+                  </CardTitle>
+                  <CardDescription>
+                    You were on step {pendingDraft.step} ({steps[pendingDraft.step - 1]?.title}) when this wallet last
+                    saved its registration, {formatDistanceToNow(new Date(pendingDraft.savedAt), { addSuffix: true })}.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex gap-3">
+                  <Button type="button" onClick={resumeDraft} className="bg-green-600 hover:bg-green-700">
+                    Continue
+                  </Button>
+                  <Button type="button" variant="outline" onClick={discardDraft}>
+                    Start Over
+                  </Button>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Form */}
-          <motion.div variants={itemVariants}>
+          <motion.div variants={itemVariants} className={pendingDraft ? 'hidden' : undefined}>
             <Card>
               <CardContent className="p-8">
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                <form onSubmit={handleSubmit(onSubmit, onInvalid)} className="space-y-6">
                   {renderStepContent()}
                   
                   {/* Navigation Buttons */}
@@ -601,21 +976,24 @@ const Register = () => {
                       <Button
                         type="button"
                         onClick={nextStep}
-                        disabled={!isValid && currentStep > 1}
                         className="bg-green-600 hover:bg-green-700"
                       >
                         Next
                         <ArrowRight className="ml-2 h-4 w-4" />
                       </Button>
                     ) : (
-                      <Button
-                        type="submit"
-                        disabled={isSubmitting}
-                        className="bg-green-600 hover:bg-green-700"
-                      >
-                        {isSubmitting ? 'Submitting...' : 'Complete Registration'}
-                        <CheckCircle className="ml-2 h-4 w-4" />
-                      </Button>
+                      <div className="max-w-md">
+                        <NetworkGuard>
+                          <Button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="bg-green-600 hover:bg-green-700"
+                          >
+                            {isSubmitting ? 'Submitting...' : 'Complete Registration'}
+                            <CheckCircle className="ml-2 h-4 w-4" />
+                          </Button>
+                        </NetworkGuard>
+                      </div>
                     )}
                   </div>
           </form>
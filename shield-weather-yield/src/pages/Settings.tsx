@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  Crop,
+  ExternalLink,
+  MapPin,
+  XCircle
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Label } from '../components/ui/label';
+import MapPicker, { type MapLocation } from '../components/MapPicker';
+import CropSelect from '../components/CropSelect';
+import NetworkGuard from '../components/NetworkGuard';
+import RecentActivity from '../components/RecentActivity';
+import { useWallet } from '../hooks/use-wallet';
+import { useTransactions } from '../hooks/use-transactions';
+import { useFarmer } from '../hooks/use-farmer';
+import { getFarmerRegistry } from '../lib/contracts';
+import { getExplorerTxUrl } from '../lib/networks';
+import { describeContractError } from '../lib/contract-errors';
+import { getCropType } from '../lib/crops';
+
+type UpdateTx = {
+  status: 'idle' | 'signing' | 'pending' | 'confirmed' | 'failed';
+  hash?: string;
+  error?: string;
+};
+
+interface FarmProfile {
+  latitude: number;
+  longitude: number;
+  cropType: string;
+}
+
+const cropLabel = (value: string) => getCropType(value)?.label ?? value;
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const signer = useWallet((state) => state.signer);
+  const chainId = useWallet((state) => state.chainId);
+  const trackTransaction = useTransactions((state) => state.track);
+  const farmerQuery = useFarmer();
+  const onChainFarmer = farmerQuery.data;
+  const [profile, setProfile] = useState<FarmProfile | null>(null);
+  const [updateTx, setUpdateTx] = useState<UpdateTx>({ status: 'idle' });
+
+  // Start editing from the on-chain record once it has loaded (and again after a confirmed update).
+  useEffect(() => {
+    if (onChainFarmer?.isRegistered) {
+      const { latitude, longitude, cropType } = onChainFarmer;
+      setProfile({ latitude, longitude, cropType });
+    }
+  }, [onChainFarmer]);
+
+  const changes = onChainFarmer && profile
+    ? [
+        { label: 'Latitude', from: String(onChainFarmer.latitude), to: String(profile.latitude) },
+        { label: 'Longitude', from: String(onChainFarmer.longitude), to: String(profile.longitude) },
+        { label: 'Crop', from: cropLabel(onChainFarmer.cropType), to: cropLabel(profile.cropType) }
+      ].filter((change) => change.from !== change.to)
+    : [];
+
+  const isBusy = updateTx.status === 'signing' || updateTx.status === 'pending';
+
+  const handleLocationSelect = (location: MapLocation) => {
+    setProfile((current) => current && { ...current, latitude: location.latitude, longitude: location.longitude });
+  };
+
+  const handleSubmit = async () => {
+    if (!signer || !profile) {
+      setUpdateTx({ status: 'failed', error: 'Connect your wallet before updating your farm.' });
+      return;
+    }
+
+    setUpdateTx({ status: 'signing' });
+    let hash: string | undefined;
+    try {
+      const registry = getFarmerRegistry(signer, chainId);
+      const tx = await registry.updateFarmer(
+        profile.latitude.toString(),
+        profile.longitude.toString(),
+        profile.cropType
+      );
+      hash = tx.hash;
+      setUpdateTx({ status: 'pending', hash });
+      await trackTransaction(tx, 'updateFarmer');
+      setUpdateTx({ status: 'confirmed', hash });
+    } catch (error) {
+      setUpdateTx({ status: 'failed', hash, error: describeContractError(error, 'farm-update') });
+    }
+  };
+
+  if (farmerQuery.isLoading || !onChainFarmer || !profile) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center"
+        >
+          <div className="w-16 h-16 border-4 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your farm...</p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Farm Settings</h1>
+            <p className="text-gray-600">Update the farm details recorded on-chain for your policy</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RecentActivity />
+            <Button variant="outline" onClick={() => navigate('/dashboard')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MapPin className="h-5 w-5 mr-2 text-green-600" />
+              Farm Location
+            </CardTitle>
+            <CardDescription>Move the pin to correct where your farm is</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[34rem] rounded-lg overflow-hidden border">
+              <MapPicker
+                onLocationSelect={handleLocationSelect}
+                initialLocation={{ latitude: onChainFarmer.latitude, longitude: onChainFarmer.longitude }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Crop className="h-5 w-5 mr-2 text-green-600" />
+              Crop
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Label htmlFor="cropType">Crop Type</Label>
+            <CropSelect
+              id="cropType"
+              value={profile.cropType}
+              onValueChange={(cropType) => setProfile({ ...profile, cropType })}
+              disabled={isBusy}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Review Changes</CardTitle>
+            <CardDescription>These values will replace your current on-chain record</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {changes.map((change) => (
+                  <div key={change.label} className="grid grid-cols-[6rem_1fr_auto_1fr] items-center gap-2 text-sm">
+                    <span className="font-medium text-gray-900">{change.label}</span>
+                    <span className="text-gray-500 line-through break-all">{change.from}</span>
+                    <ArrowRight className="h-4 w-4 text-gray-400" />
+                    <span className="text-green-700 font-medium break-all">{change.to}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {updateTx.status !== 'idle' && (
+              <div className={`p-4 rounded-lg border ${
+                updateTx.status === 'failed'
+                  ? 'bg-red-50 border-red-200'
+                  : 'bg-green-50 border-green-200'
+              }`}>
+                <div className="flex items-center">
+                  {updateTx.status === 'failed' ? (
+                    <XCircle className="h-5 w-5 mr-2 text-red-600" />
+                  ) : updateTx.status === 'confirmed' ? (
+                    <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
+                  ) : (
+                    <div className="w-5 h-5 mr-2 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+                  )}
+                  <span className="font-medium text-gray-900">
+                    {updateTx.status === 'signing' && 'Confirm the transaction in your wallet...'}
+                    {updateTx.status === 'pending' && 'Updating on Celo, waiting for confirmation...'}
+                    {updateTx.status === 'confirmed' && 'Farm details updated!'}
+                    {updateTx.status === 'failed' && 'Update failed'}
+                  </span>
+                </div>
+                {updateTx.error && <p className="text-sm text-red-700 mt-2">{updateTx.error}</p>}
+                {updateTx.hash && (
+                  <a
+                    href={getExplorerTxUrl(updateTx.hash, chainId) ?? undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-sm text-green-700 hover:text-green-800 mt-2 font-mono break-all"
+                  >
+                    {updateTx.hash}
+                    <ExternalLink className="h-4 w-4 ml-1 flex-shrink-0" />
+                  </a>
+                )}
+              </div>
+            )}
+
+            <NetworkGuard>
+              <Button
+                onClick={handleSubmit}
+                disabled={isBusy || changes.length === 0}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isBusy ? 'Updating...' : 'Sign & Update Farm'}
+              </Button>
+            </NetworkGuard>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,229 @@
+import { z } from "zod";
+
+// Shared domain model. Data read from the chain or the backend goes through
+// the parse* functions below before it reaches components.
+//
+// The interfaces are declared by hand: without strictNullChecks zod infers
+// every key as optional, so z.infer would not describe the validated shape.
+
+/* ------------------------------------------------------------------ Farmer */
+
+export type FarmSizeUnit = "acres" | "hectares";
+
+/** A FarmerRegistry record. Location and crop live on-chain; the rest is optional off-chain profile data. */
+export interface Farmer {
+  address: string;
+  isRegistered: boolean;
+  latitude: number;
+  longitude: number;
+  cropType: string;
+  farmSize?: number;
+  farmSizeUnit?: FarmSizeUnit;
+  plantingDate?: string;
+  expectedHarvestDate?: string;
+  registeredAt?: string;
+}
+
+/* ------------------------------------------------------------------ Policy */
+
+export type PolicyStatus = "active" | "awaiting-premium";
+
+export interface Policy {
+  status: PolicyStatus;
+  // Total cUSD paid into the PremiumPool.
+  premiumPaid: number;
+  coverageAmount?: number;
+  nextPremiumDue?: string;
+}
+
+export const POLICY_STATUS_LABELS: Record<PolicyStatus, string> = {
+  active: "active",
+  "awaiting-premium": "awaiting premium",
+};
+
+/** A farmer's policy is active once any premium has been paid into the pool. */
+export function policyFromPremium(premiumPaid: number): Policy {
+  return { status: premiumPaid > 0 ? "active" : "awaiting-premium", premiumPaid };
+}
+
+/* ----------------------------------------------------------------- Weather */
+
+export type AlertSeverity = "minor" | "moderate" | "severe" | "extreme";
+
+export interface WeatherAlert {
+  event: string;
+  description: string;
+  severity: AlertSeverity;
+  start?: string;
+  end?: string;
+}
+
+/** One reading at the farm, in °C, %, mm, km/h, hPa and km. */
+export interface WeatherObservation {
+  timestamp: string;
+  temperature: number;
+  temperatureMin: number;
+  temperatureMax: number;
+  feelsLike?: number;
+  humidity: number;
+  rainfall: number;
+  windSpeed: number;
+  windDirection?: number;
+  pressure?: number;
+  visibility?: number;
+  uvIndex?: number;
+  cloudCover?: number;
+  // Backend weatherCondition.main, e.g. "clear", "rain", "partly cloudy".
+  condition: string;
+  description: string;
+  alerts: WeatherAlert[];
+}
+
+/* ------------------------------------------------------------------- Claim */
+
+export const CLAIM_STATUSES = ["pending", "approved", "rejected", "paid", "failed"] as const;
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
+interface ClaimBase {
+  id: string;
+  claimId: string;
+  // Premium payments are listed with payouts in the claims history.
+  kind: "payout" | "premium";
+  amount: number;
+  triggerReason: string;
+  createdAt: string;
+  explorerUrl: string | null;
+}
+
+export interface PendingClaim extends ClaimBase {
+  status: "pending";
+}
+
+export interface ApprovedClaim extends ClaimBase {
+  status: "approved";
+}
+
+export interface RejectedClaim extends ClaimBase {
+  status: "rejected";
+  reviewNotes?: string;
+}
+
+export interface PaidClaim extends ClaimBase {
+  status: "paid";
+  paidAt: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface FailedClaim extends ClaimBase {
+  status: "failed";
+  txHash?: string;
+}
+
+export type Claim = PendingClaim | ApprovedClaim | RejectedClaim | PaidClaim | FailedClaim;
+
+/* ----------------------------------------------------------------- Schemas */
+
+const farmerSchema = z.object({
+  address: z.string(),
+  isRegistered: z.boolean(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  cropType: z.string(),
+  farmSize: z.number().positive().optional(),
+  farmSizeUnit: z.enum(["acres", "hectares"]).optional(),
+  plantingDate: z.string().optional(),
+  expectedHarvestDate: z.string().optional(),
+  registeredAt: z.string().optional(),
+});
+
+const weatherAlertSchema = z.object({
+  event: z.string(),
+  description: z.string().default(""),
+  severity: z.enum(["minor", "moderate", "severe", "extreme"]),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+});
+
+// Backend WeatherData documents wrap each reading as { value, unit }.
+const reading = z.object({ value: z.number() });
+const measurement = z.object({ value: z.number().optional() }).optional();
+
+const weatherDataSchema = z.object({
+  timestamp: z.coerce.date(),
+  temperature: z.object({ current: reading, min: measurement, max: measurement, feelsLike: measurement }),
+  humidity: reading,
+  rainfall: measurement,
+  wind: z.object({ speed: measurement, direction: measurement }).optional(),
+  pressure: measurement,
+  visibility: measurement,
+  uvIndex: measurement,
+  cloudCover: measurement,
+  weatherCondition: z.object({ main: z.string().optional(), description: z.string().optional() }).optional(),
+  alerts: z.array(weatherAlertSchema).default([]),
+});
+
+const claimBaseSchema = z.object({
+  id: z.string(),
+  claimId: z.string(),
+  kind: z.enum(["payout", "premium"]),
+  amount: z.number().nonnegative(),
+  triggerReason: z.string(),
+  createdAt: z.string(),
+  explorerUrl: z.string().nullable().default(null),
+});
+
+const claimSchema = z.discriminatedUnion("status", [
+  claimBaseSchema.extend({ status: z.literal("pending") }),
+  claimBaseSchema.extend({ status: z.literal("approved") }),
+  claimBaseSchema.extend({ status: z.literal("rejected"), reviewNotes: z.string().optional() }),
+  claimBaseSchema.extend({
+    status: z.literal("paid"),
+    paidAt: z.string(),
+    txHash: z.string(),
+    blockNumber: z.number().int().nonnegative(),
+  }),
+  claimBaseSchema.extend({ status: z.literal("failed"), txHash: z.string().optional() }),
+]);
+
+/* ----------------------------------------------------------------- Parsers */
+
+export function parseFarmer(data: unknown): Farmer {
+  return farmerSchema.parse(data) as Farmer;
+}
+
+export function parseClaim(data: unknown): Claim {
+  return claimSchema.parse(data) as Claim;
+}
+
+/** Validates a backend WeatherData document and flattens it into a WeatherObservation. */
+export function parseWeatherObservation(data: unknown): WeatherObservation {
+  const doc = weatherDataSchema.parse(data);
+  const temperature = doc.temperature.current.value;
+  return {
+    timestamp: doc.timestamp.toISOString(),
+    temperature,
+    temperatureMin: doc.temperature.min?.value ?? temperature,
+    temperatureMax: doc.temperature.max?.value ?? temperature,
+    feelsLike: doc.temperature.feelsLike?.value,
+    humidity: doc.humidity.value,
+    rainfall: doc.rainfall?.value ?? 0,
+    windSpeed: doc.wind?.speed?.value ?? 0,
+    windDirection: doc.wind?.direction?.value,
+    pressure: doc.pressure?.value,
+    visibility: doc.visibility?.value,
+    uvIndex: doc.uvIndex?.value,
+    cloudCover: doc.cloudCover?.value,
+    condition: doc.weatherCondition?.main ?? "unknown",
+    description: doc.weatherCondition?.description ?? "",
+    alerts: doc.alerts.map(
+      (alert): WeatherAlert => ({
+        event: alert.event,
+        description: alert.description,
+        severity: alert.severity,
+        start: alert.start?.toISOString(),
+        end: alert.end?.toISOString(),
+      })
+    ),
+  };
+}
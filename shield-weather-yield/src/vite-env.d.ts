@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_API_MOCK?: string;
+  readonly VITE_CHAIN_ID?: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  readonly VITE_GEOCODER_URL?: string;
+  readonly VITE_OPEN_METEO_ARCHIVE_URL?: string;
+  readonly VITE_OPEN_METEO_FORECAST_URL?: string;
+  readonly VITE_WEATHER_PROVIDER?: "backend" | "open-meteo";
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
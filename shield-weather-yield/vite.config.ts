@@ -1,4 +1,5 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest" />
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
@@ -8,11 +9,26 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    fs: {
+      // The contracts package's typechain types and deployment manifests live next to this app.
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../weathershield-contracts")],
+    },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Typed contract factories generated by Hardhat in the sibling contracts package.
+      "@contracts": path.resolve(__dirname, "../weathershield-contracts/typechain-types"),
+      // Deployment manifests written by the contracts package's deploy script.
+      "@deployments": path.resolve(__dirname, "../weathershield-contracts/deployments"),
     },
+    // The typechain sources import ethers from outside this package; resolve it from here.
+    dedupe: ["ethers"],
+  },
+  test: {
+    environment: "jsdom",
+    // Backend calls go to the in-memory mock API (src/lib/mock-api.ts).
+    env: { VITE_API_MOCK: "true" },
   },
 }));
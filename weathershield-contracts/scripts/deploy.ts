@@ -1,4 +1,11 @@
-import { ethers } from "hardhat";
+import fs from "fs";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import type { BaseContract } from "ethers";
+
+// Bump when the manifest shape changes so consumers can reject unknown formats.
+const MANIFEST_VERSION = 1;
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
 
 // cUSD addresses per network
 // Alfajores: https://docs.celo.org/learn/celo-tokens#contract-addresses
@@ -7,6 +14,33 @@ const CUSD_ADDRESSES: Record<number, string> = {
   42220: "0x765DE816845861e75A25fCA122bb6898B8B1282a", // Mainnet cUSD
 };
 
+interface DeployedContract {
+  address: string;
+  txHash: string;
+  deployBlock: number;
+  abiHash: string;
+}
+
+// Waits for the deployment and collects what the frontend needs to talk to it.
+async function describeDeployment(name: string, contract: BaseContract): Promise<DeployedContract> {
+  await contract.waitForDeployment();
+  const tx = contract.deploymentTransaction();
+  if (!tx) throw new Error(`${name} has no deployment transaction`);
+  const receipt = await tx.wait();
+  const artifact = await hre.artifacts.readArtifact(name);
+  return {
+    address: await contract.getAddress(),
+    txHash: tx.hash,
+    deployBlock: receipt?.blockNumber ?? 0,
+    abiHash: ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(artifact.abi))),
+  };
+}
+
+async function compilerVersion(name: string): Promise<string> {
+  const buildInfo = await hre.artifacts.getBuildInfo(`contracts/${name}.sol:${name}`);
+  return buildInfo?.solcLongVersion ?? hre.config.solidity.compilers[0].version;
+}
+
 async function main() {
   const [deployer] = await ethers.getSigners();
   const network = await ethers.provider.getNetwork();
@@ -21,24 +55,39 @@ async function main() {
 
   // Deploy FarmerRegistry
   const FarmerRegistry = await ethers.getContractFactory("FarmerRegistry");
-  const farmerRegistry = await FarmerRegistry.deploy();
-  await farmerRegistry.waitForDeployment();
-  const farmerRegistryAddress = await farmerRegistry.getAddress();
-  console.log("FarmerRegistry deployed:", farmerRegistryAddress);
+  const farmerRegistry = await describeDeployment("FarmerRegistry", await FarmerRegistry.deploy());
+  console.log("FarmerRegistry deployed:", farmerRegistry.address);
 
   // Deploy PremiumPool(cUSD, farmerRegistry)
   const PremiumPool = await ethers.getContractFactory("PremiumPool");
-  const premiumPool = await PremiumPool.deploy(cusd, farmerRegistryAddress);
-  await premiumPool.waitForDeployment();
-  const premiumPoolAddress = await premiumPool.getAddress();
-  console.log("PremiumPool deployed:", premiumPoolAddress);
+  const premiumPool = await describeDeployment("PremiumPool", await PremiumPool.deploy(cusd, farmerRegistry.address));
+  console.log("PremiumPool deployed:", premiumPool.address);
 
   // Deploy PayoutManager(cUSD, farmerRegistry)
   const PayoutManager = await ethers.getContractFactory("PayoutManager");
-  const payoutManager = await PayoutManager.deploy(cusd, farmerRegistryAddress);
-  await payoutManager.waitForDeployment();
-  const payoutManagerAddress = await payoutManager.getAddress();
-  console.log("PayoutManager deployed:", payoutManagerAddress);
+  const payoutManager = await describeDeployment("PayoutManager", await PayoutManager.deploy(cusd, farmerRegistry.address));
+  console.log("PayoutManager deployed:", payoutManager.address);
+
+  const manifest = {
+    manifestVersion: MANIFEST_VERSION,
+    network: hre.network.name,
+    chainId,
+    deployer: deployer.address,
+    deployedAt: new Date().toISOString(),
+    compiler: await compilerVersion("FarmerRegistry"),
+    cUSD: cusd,
+    contracts: {
+      FarmerRegistry: farmerRegistry,
+      PremiumPool: premiumPool,
+      PayoutManager: payoutManager,
+    },
+  };
+
+  // One manifest per chain; the frontend bundles every file in this directory.
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const manifestPath = path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+  console.log("Deployment manifest written:", manifestPath);
 }
 
 main().catch((error) => {